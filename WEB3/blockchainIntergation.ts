@@ -8,9 +8,10 @@ import PayrollProcessorABI from './abis/PayrollProcessor.json';
 import CollateralManagerABI from './abis/CollateralManager.json';
 import InvestmentManagerABI from './abis/Investmentmanager.json';
 import SavingsManagerABI from './abis/SavingsManager.json';
+import RoleManagerABI from './abis/RoleManager.json';
 
 // Import contract addresses from config
-import { CONTRACT_ADDRESSES } from '../config/blockchain';
+import { CONTRACT_ADDRESSES, READ_RPC_URL } from '../config/blockchain';
 
 // Types
 export interface ContractAddresses {
@@ -22,15 +23,41 @@ export interface ContractAddresses {
   SAVING_MANAGER_CONTRACT: string;
 }
 
-export interface BlockchainContracts {
-  provider: ethers.providers.Web3Provider;
-  signer: ethers.Signer;
+export interface ProtocolContracts {
   spayToken: Contract;
   etfToken: Contract;
   payrollProcessor: Contract;
   collateralManager: Contract;
   investmentManager: Contract;
   savingsManager: Contract;
+  roleManager: Contract;
+}
+
+export interface BlockchainContracts extends ProtocolContracts {
+  provider: ethers.providers.Web3Provider;
+  signer: ethers.Signer;
+}
+
+export interface ReadOnlyContracts extends ProtocolContracts {
+  provider: ethers.providers.JsonRpcProvider;
+}
+
+// Shared contract client, created once per wallet/chain session
+let cachedContracts: Promise<BlockchainContracts> | null = null;
+
+// Read-only client for view calls, available without a connected wallet
+let readOnlyContracts: ReadOnlyContracts | null = null;
+
+function createContracts(signerOrProvider: ethers.Signer | ethers.providers.Provider): ProtocolContracts {
+  return {
+    spayToken: new Contract(CONTRACT_ADDRESSES.SPAY_TOKEN_CONTRACT, SPAYStablecoinABI, signerOrProvider),
+    etfToken: new Contract(CONTRACT_ADDRESSES.ETF_TOKEN_CONTRACT, ETFTokenABI, signerOrProvider),
+    payrollProcessor: new Contract(CONTRACT_ADDRESSES.PAYROLL_PROCESSOR, PayrollProcessorABI, signerOrProvider),
+    collateralManager: new Contract(CONTRACT_ADDRESSES.COLLETRAL_MANAGER, CollateralManagerABI, signerOrProvider),
+    investmentManager: new Contract(CONTRACT_ADDRESSES.INVESTMENT_MANAGER, InvestmentManagerABI, signerOrProvider),
+    savingsManager: new Contract(CONTRACT_ADDRESSES.SAVING_MANAGER_CONTRACT, SavingsManagerABI, signerOrProvider),
+    roleManager: new Contract(CONTRACT_ADDRESSES.ROLE_MANAGER_CONTRACT, RoleManagerABI, signerOrProvider),
+  };
 }
 
 // Initialize provider and contracts
@@ -43,65 +70,98 @@ export async function initializeBlockchain(): Promise<BlockchainContracts> {
     const provider = new ethers.providers.Web3Provider(window.ethereum);
     await provider.send('eth_requestAccounts', []); // Request account access
     const signer = provider.getSigner();
-    console.log("signer",signer)
-
-    const spayToken = new Contract(
-      CONTRACT_ADDRESSES.SPAY_TOKEN_CONTRACT,
-      SPAYStablecoinABI,
-      signer
-    );
-
-    const etfToken = new Contract(
-      CONTRACT_ADDRESSES.ETF_TOKEN_CONTRACT,
-      ETFTokenABI,
-      signer
-    );
-
-    const payrollProcessor = new Contract(
-      CONTRACT_ADDRESSES.PAYROLL_PROCESSOR,
-      PayrollProcessorABI,
-      signer
-    );
-
-    const collateralManager = new Contract(
-      CONTRACT_ADDRESSES.COLLETRAL_MANAGER,
-      CollateralManagerABI,
-      signer
-    );
-
-    const investmentManager = new Contract(
-      CONTRACT_ADDRESSES.INVESTMENT_MANAGER,
-      InvestmentManagerABI,
-      signer
-    );
-
-    const savingsManager = new Contract(
-      CONTRACT_ADDRESSES.SAVING_MANAGER_CONTRACT,
-      SavingsManagerABI,
-      signer
-    );
 
     return {
       provider,
       signer,
-      spayToken,
-      etfToken,
-      payrollProcessor,
-      collateralManager,
-      investmentManager,
-      savingsManager,
+      ...createContracts(signer),
     };
   } catch (error) {
     throw new Error(`Failed to initialize blockchain: ${error}`);
   }
 }
 
+// JSON-RPC provider for view calls; never prompts the wallet
+export function getReadOnlyProvider(): ethers.providers.JsonRpcProvider {
+  return getReadOnlyContracts().provider;
+}
+
+export function getReadOnlyContracts(): ReadOnlyContracts {
+  if (!readOnlyContracts) {
+    const provider = new ethers.providers.StaticJsonRpcProvider(READ_RPC_URL);
+    readOnlyContracts = {
+      provider,
+      ...createContracts(provider),
+    };
+  }
+  return readOnlyContracts;
+}
+
+// Returns the shared contract client, initializing it on first use
+export function getBlockchainContracts(): Promise<BlockchainContracts> {
+  if (!cachedContracts) {
+    cachedContracts = initializeBlockchain().catch((error) => {
+      // Don't cache failures so the next call can retry
+      cachedContracts = null;
+      throw error;
+    });
+  }
+  return cachedContracts;
+}
+
+// Drops the shared client; called when the wallet account or chain changes
+export function resetBlockchainContracts(): void {
+  cachedContracts = null;
+}
+
+// Extracts the revert reason from a (possibly wrapped) ethers error, if there is one
+export function getRevertReason(error: any): string | null {
+  const message = `${error?.reason || ''} ${error?.message || error}`;
+  const match = /reason="(?:execution reverted: )?([^"]+)"/.exec(message)
+    || /execution reverted: ([^"\n,]+)/.exec(message)
+    || /reverted with reason string '([^']+)'/.exec(message);
+  return match ? match[1] : null;
+}
+
 // Contract interaction functions
 
+// Approves `spender` to pull SPAY from the connected wallet if the current allowance is too low.
+// Returns the approval receipt, or null when no approval was needed.
+export async function ensureSPAYAllowance(spender: string, amount: ethers.BigNumberish) {
+  try {
+    const contracts = await getBlockchainContracts();
+    const owner = await contracts.signer.getAddress();
+    const allowance = await contracts.spayToken.allowance(owner, spender);
+    if (allowance.gte(amount)) {
+      return null;
+    }
+    const tx = await contracts.spayToken.approve(spender, amount);
+    return await tx.wait();
+  } catch (error) {
+    throw new Error(`Failed to approve SPAY: ${error}`);
+  }
+}
+
+// ETF counterpart of ensureSPAYAllowance, used before CollateralManager pulls ETF into collateral.
+export async function ensureETFAllowance(spender: string, amount: ethers.BigNumberish) {
+  try {
+    const contracts = await getBlockchainContracts();
+    const owner = await contracts.signer.getAddress();
+    const allowance = await contracts.etfToken.allowance(owner, spender);
+    if (allowance.gte(amount)) {
+      return null;
+    }
+    const tx = await contracts.etfToken.approve(spender, amount);
+    return await tx.wait();
+  } catch (error) {
+    throw new Error(`Failed to approve ETF: ${error}`);
+  }
+}
+
 // SPAY Token Functions
 export async function getBalances(address: string) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     const [spayBalance, etfBalance] = await Promise.all([
       contracts.spayToken.balanceOf(address),
       contracts.etfToken.balanceOf(address)
@@ -117,7 +177,7 @@ export async function getBalances(address: string) {
 
 export async function transferSPAY(to: string, amount: ethers.BigNumberish) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.spayToken.transfer(to, amount);
     return await tx.wait();
   } catch (error) {
@@ -127,7 +187,7 @@ export async function transferSPAY(to: string, amount: ethers.BigNumberish) {
 
 export async function checkKYC(address: string): Promise<boolean> {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     return await contracts.spayToken.isVerified(address);
   } catch (error) {
     throw new Error(`Failed to check KYC: ${error}`);
@@ -136,7 +196,7 @@ export async function checkKYC(address: string): Promise<boolean> {
 
 export async function verifyUser(address: string) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.spayToken.verifyUser(address);
     return await tx.wait();
   } catch (error) {
@@ -147,7 +207,7 @@ export async function verifyUser(address: string) {
 // ETF Token Functions
 export async function getETFPrice(): Promise<ethers.BigNumber> {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     const price = await contracts.etfToken.getETFPriceUSD();
     return ethers.BigNumber.from(price);
   } catch (error) {
@@ -157,7 +217,7 @@ export async function getETFPrice(): Promise<ethers.BigNumber> {
 
 export async function getETFYield(address: string): Promise<ethers.BigNumber> {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     const balance = await contracts.etfToken.balanceOf(address);
     const annualYieldBps = await contracts.etfToken.annualYieldBps();
     return balance.mul(annualYieldBps).div(ethers.BigNumber.from(365 * 10000));
@@ -168,7 +228,7 @@ export async function getETFYield(address: string): Promise<ethers.BigNumber> {
 
 export async function distributeYield(recipient: string) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.etfToken.distributeYield(recipient);
     return await tx.wait();
   } catch (error) {
@@ -183,7 +243,7 @@ export async function setPayrollSchedule(
   interval: number
 ) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.payrollProcessor.setPayrollSchedule(employeeAddress, amount, interval);
     return await tx.wait();
   } catch (error) {
@@ -191,9 +251,23 @@ export async function setPayrollSchedule(
   }
 }
 
+export async function getPayrollSchedule(employeeAddress: string) {
+  try {
+    const contracts = getReadOnlyContracts();
+    const payroll = await contracts.payrollProcessor.employeePayrolls(employeeAddress);
+    return {
+      amount: ethers.BigNumber.from(payroll.amount),
+      lastPaymentTimestamp: ethers.BigNumber.from(payroll.lastPaymentTimestamp),
+      paymentInterval: ethers.BigNumber.from(payroll.paymentInterval)
+    };
+  } catch (error) {
+    throw new Error(`Failed to get payroll schedule: ${error}`);
+  }
+}
+
 export async function processPayroll(employeeAddress: string) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.payrollProcessor.disbursePayroll(employeeAddress);
     return await tx.wait();
   } catch (error) {
@@ -203,7 +277,7 @@ export async function processPayroll(employeeAddress: string) {
 
 export async function processBatchPayroll(employeeAddresses: string[]) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.payrollProcessor.disbursePayrollBatch(employeeAddresses);
     return await tx.wait();
   } catch (error) {
@@ -211,10 +285,47 @@ export async function processBatchPayroll(employeeAddresses: string[]) {
   }
 }
 
+// Tax and fee rates, in basis points
+export async function getPayrollRates() {
+  try {
+    const contracts = getReadOnlyContracts();
+    const [taxRateBps, feeRateBps] = await Promise.all([
+      contracts.payrollProcessor.taxRateBps(),
+      contracts.payrollProcessor.feeRateBps()
+    ]);
+    return {
+      taxRateBps: ethers.BigNumber.from(taxRateBps).toNumber(),
+      feeRateBps: ethers.BigNumber.from(feeRateBps).toNumber()
+    };
+  } catch (error) {
+    throw new Error(`Failed to get payroll rates: ${error}`);
+  }
+}
+
+export async function updateTaxRate(newRateBps: number) {
+  try {
+    const contracts = await getBlockchainContracts();
+    const tx = await contracts.payrollProcessor.updateTaxRate(newRateBps);
+    return await tx.wait();
+  } catch (error) {
+    throw new Error(`Failed to update tax rate: ${error}`);
+  }
+}
+
+export async function updateFeeRate(newRateBps: number) {
+  try {
+    const contracts = await getBlockchainContracts();
+    const tx = await contracts.payrollProcessor.updateFeeRate(newRateBps);
+    return await tx.wait();
+  } catch (error) {
+    throw new Error(`Failed to update fee rate: ${error}`);
+  }
+}
+
 // Investment Functions
 export async function investInETF(amount: ethers.BigNumberish) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.investmentManager.invest(amount);
     return await tx.wait();
   } catch (error) {
@@ -224,7 +335,7 @@ export async function investInETF(amount: ethers.BigNumberish) {
 
 export async function withdrawInvestment(etfAmount: ethers.BigNumberish) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.investmentManager.withdraw(etfAmount);
     return await tx.wait();
   } catch (error) {
@@ -234,7 +345,7 @@ export async function withdrawInvestment(etfAmount: ethers.BigNumberish) {
 
 export async function getUserInvestment(address: string): Promise<ethers.BigNumber> {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     const investment = await contracts.investmentManager.userInvestments(address);
     return ethers.BigNumber.from(investment);
   } catch (error) {
@@ -245,7 +356,7 @@ export async function getUserInvestment(address: string): Promise<ethers.BigNumb
 // Savings Functions
 export async function lockSavings(amount: ethers.BigNumberish) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.savingsManager.lockSavings(amount);
     return await tx.wait();
   } catch (error) {
@@ -255,7 +366,7 @@ export async function lockSavings(amount: ethers.BigNumberish) {
 
 export async function withdrawSavings() {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.savingsManager.withdrawSavings();
     return await tx.wait();
   } catch (error) {
@@ -265,7 +376,7 @@ export async function withdrawSavings() {
 
 export async function getSavingsInfo(address: string) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     const savings = await contracts.savingsManager.userSavings(address);
     const remainingLockTime = await contracts.savingsManager.getRemainingLockTime(address);
     return {
@@ -281,7 +392,7 @@ export async function getSavingsInfo(address: string) {
 // Collateral Functions
 export async function lockCollateral(amount: ethers.BigNumberish) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.collateralManager.lockCollateral(amount);
     return await tx.wait();
   } catch (error) {
@@ -291,7 +402,7 @@ export async function lockCollateral(amount: ethers.BigNumberish) {
 
 export async function releaseCollateral(amount: ethers.BigNumberish, recipient: string) {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = await getBlockchainContracts();
     const tx = await contracts.collateralManager.releaseCollateral(amount, recipient);
     return await tx.wait();
   } catch (error) {
@@ -301,7 +412,7 @@ export async function releaseCollateral(amount: ethers.BigNumberish, recipient:
 
 export async function getCollateralRatio(): Promise<ethers.BigNumber> {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     const ratio = await contracts.collateralManager.getCollateralRatio();
     return ethers.BigNumber.from(ratio);
   } catch (error) {
@@ -311,7 +422,7 @@ export async function getCollateralRatio(): Promise<ethers.BigNumber> {
 
 export async function getTotalCollateralLocked(): Promise<ethers.BigNumber> {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     const collateral = await contracts.collateralManager.totalCollateralLocked();
     return ethers.BigNumber.from(collateral);
   } catch (error) {
@@ -321,10 +432,31 @@ export async function getTotalCollateralLocked(): Promise<ethers.BigNumber> {
 
 export async function getMinCollateralRatio(): Promise<ethers.BigNumber> {
   try {
-    const contracts = await initializeBlockchain();
+    const contracts = getReadOnlyContracts();
     const ratio = await contracts.collateralManager.minCollateralRatioBps();
     return ethers.BigNumber.from(ratio);
   } catch (error) {
     throw new Error(`Failed to get minimum collateral ratio: ${error}`);
   }
+}
+
+export async function getTargetCollateralRatio(): Promise<ethers.BigNumber> {
+  try {
+    const contracts = getReadOnlyContracts();
+    const ratio = await contracts.collateralManager.collateralRatioBps();
+    return ethers.BigNumber.from(ratio);
+  } catch (error) {
+    throw new Error(`Failed to get target collateral ratio: ${error}`);
+  }
+}
+
+// Requires DEFAULT_ADMIN_ROLE on CollateralManager; the contract rejects ratios below 100%
+export async function updateCollateralRatio(newRatioBps: number) {
+  try {
+    const contracts = await getBlockchainContracts();
+    const tx = await contracts.collateralManager.updateCollateralRatio(newRatioBps);
+    return await tx.wait();
+  } catch (error) {
+    throw new Error(`Failed to update collateral ratio: ${error}`);
+  }
 }
\ No newline at end of file
@@ -17,22 +17,65 @@ import { Button } from '@/components/ui/button';
 import { Loader2 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { GradientText } from '@/components/ui/gradient-text';
+import { formatDate } from '@/lib/utils';
+import { toast } from '@/components/ui/use-toast';
+import {
+  claimEmployeeInvitation,
+  decodeInvitation,
+  fetchInvitationClaimed,
+  verifyInvitation,
+  type SignedInvitation,
+  type VerifiedInvitation,
+} from '@/lib/employee-invitation';
+import { ensureWalletSession } from '@/lib/wallet-auth';
 
 interface RoleAuthProps {
   onRoleConfirmed: (role: 'employer' | 'employee' | null) => void;
+  // Encoded invitation from an employer's invite link
+  invitation?: string | null;
 }
 
-export const RoleAuth: React.FC<RoleAuthProps> = ({ onRoleConfirmed }) => {
+export const RoleAuth: React.FC<RoleAuthProps> = ({ onRoleConfirmed, invitation }) => {
   const [account, setAccount] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string>('');
   const [employerAddress, setEmployerAddress] = useState<string>('');
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [invite, setInvite] = useState<VerifiedInvitation | null>(null);
+  const [signedInvite, setSignedInvite] = useState<SignedInvitation | null>(null);
+  const [inviteError, setInviteError] = useState<string>('');
 
   useEffect(() => {
     checkMetaMaskConnection();
   }, []);
 
+  // Verify the invitation against the connected wallet and pre-fill the employer from it
+  useEffect(() => {
+    if (!invitation || !account) return;
+
+    // Decode inside the chain so a malformed link shows as an invitation error
+    Promise.resolve()
+      .then(async () => {
+        const signed = decodeInvitation(invitation);
+        const [verified, claimed] = await Promise.all([
+          verifyInvitation(signed, account),
+          fetchInvitationClaimed(signed.invitation.nonce),
+        ]);
+        if (claimed) {
+          throw new Error('This invitation has already been used. Ask your employer for a new link.');
+        }
+        setSignedInvite(signed);
+        setInvite(verified);
+        setInviteError('');
+        setEmployerAddress(verified.employer);
+      })
+      .catch((err: any) => {
+        setSignedInvite(null);
+        setInvite(null);
+        setInviteError(err.message || 'Invalid invitation');
+      });
+  }, [invitation, account]);
+
   const checkMetaMaskConnection = async () => {
     try {
       if (!window.ethereum) {
@@ -81,13 +124,37 @@ export const RoleAuth: React.FC<RoleAuthProps> = ({ onRoleConfirmed }) => {
     }
   };
 
+  // Records the claim so the employer can apply the agreed pay terms. Registration already
+  // succeeded on chain, so a failure here only warns.
+  const claimInvitation = async (signed: SignedInvitation) => {
+    try {
+      const signer = new ethers.providers.Web3Provider(window.ethereum).getSigner(account);
+      await ensureWalletSession(account, (message) => signer.signMessage(message));
+      await claimEmployeeInvitation(signed);
+    } catch (err: any) {
+      console.error('Claiming invitation failed:', err);
+      toast({
+        title: 'Invitation Not Claimed',
+        description: `You are registered, but your employer was not sent the agreed terms: ${err.message || err}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleEmployeeRegistration = async () => {
     try {
       if (!ethers.utils.isAddress(employerAddress)) {
         throw new Error('Invalid employer address');
       }
+      if (invite && invite.expiry < Math.floor(Date.now() / 1000)) {
+        setInviteError('This invitation has expired. Ask your employer for a new link.');
+        return;
+      }
       setLoading(true);
       await registerAsEmployee(employerAddress);
+      if (invite && signedInvite) {
+        await claimInvitation(signedInvite);
+      }
       onRoleConfirmed('employee');
     } catch (err) {
       setError('Failed to register as employee');
@@ -111,6 +178,23 @@ export const RoleAuth: React.FC<RoleAuthProps> = ({ onRoleConfirmed }) => {
         </Alert>
       )}
 
+      {inviteError && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{inviteError}</AlertDescription>
+        </Alert>
+      )}
+
+      {invite && (
+        <Card className="p-6 space-y-2">
+          <h3 className="text-xl font-semibold">You've been invited</h3>
+          <p className="text-sm text-muted-foreground break-all">Employer: {invite.employer}</p>
+          <p className="text-sm">
+            Proposed pay: <span className="font-medium">{invite.formattedAmount} SPAY</span> ({invite.schedule})
+          </p>
+          <p className="text-sm text-muted-foreground">Invitation expires {formatDate(invite.expiry)}</p>
+        </Card>
+      )}
+
       <div className="grid md:grid-cols-2 gap-6">
         <Card className="p-6 space-y-4">
           <h3 className="text-xl font-semibold">Register as Employer</h3>
@@ -144,7 +228,7 @@ export const RoleAuth: React.FC<RoleAuthProps> = ({ onRoleConfirmed }) => {
               placeholder="Enter Employer Address (0x...)"
               value={employerAddress}
               onChange={(e) => setEmployerAddress(e.target.value)}
-              disabled={loading}
+              disabled={loading || !!invite}
             />
             <Button
               onClick={handleEmployeeRegistration}
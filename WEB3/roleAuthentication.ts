@@ -1,8 +1,6 @@
 import { ethers } from 'ethers';
 import { Contract } from 'ethers';
-import RoleManagerABI from './abis/RoleManager.json';
-import { CONTRACT_ADDRESSES } from '../config/blockchain';
-import { initializeBlockchain } from './blockchainIntergation';
+import { getBlockchainContracts, getReadOnlyContracts, type ProtocolContracts } from './blockchainIntergation';
 
 // Types
 export interface RoleManagerContract extends Contract {
@@ -16,45 +14,16 @@ export interface RoleManagerContract extends Contract {
   pause(): Promise<ethers.ContractTransaction>;
   unpause(): Promise<ethers.ContractTransaction>;
   hasRole(role: string, account: string): Promise<boolean>;
+  grantRoleToMany(role: string, accounts: string[]): Promise<ethers.ContractTransaction>;
+  revokeRoleFromMany(role: string, accounts: string[]): Promise<ethers.ContractTransaction>;
 }
 
 // Role Manager Functions
 export async function initializeRoleManager(): Promise<RoleManagerContract> {
   try {
-    console.log('Initializing Role Manager...');
-    if (!window.ethereum) {
-      throw new Error('MetaMask not detected. Please install MetaMask or another Web3 wallet');
-    }
-
-    const provider = new ethers.providers.Web3Provider(window.ethereum);
-    console.log('Web3 Provider initialized:', provider);
-
-    await provider.send('eth_requestAccounts', []); // Request account access
-    console.log('Wallet connection approved');
-
-    // Ensure we're connected to the correct network
-    const network = await provider.getNetwork();
-    console.log('Network:', network);
-    if (!network.chainId) {
-      throw new Error('Network not properly configured. Please check your wallet connection.');
-    }
-    console.log('Connected to network with chainId:', network.chainId);
-
-    const signer = provider.getSigner();
-    const address = await signer.getAddress();
-    console.log('Signer initialized for address:', address);
-
-    const contracts = await initializeBlockchain();
-    console.log('Blockchain contracts initialized');
-
-    const roleManager = new Contract(
-      CONTRACT_ADDRESSES.ROLE_MANAGER_CONTRACT,
-      RoleManagerABI,
-      contracts.signer
-    ) as RoleManagerContract;
-
-    console.log('Role Manager Contract initialized at:', CONTRACT_ADDRESSES.ROLE_MANAGER_CONTRACT);
-    return roleManager;
+    // Reuse the shared contract client instead of reconnecting the wallet on every call
+    const contracts = await getBlockchainContracts();
+    return contracts.roleManager as RoleManagerContract;
   } catch (error: any) {
     console.error('Role Manager initialization failed:', error);
     if (error.code === 4001) {
@@ -67,6 +36,11 @@ export async function initializeRoleManager(): Promise<RoleManagerContract> {
   }
 }
 
+// Read-only Role Manager for view calls; does not require a connected wallet
+export function getReadOnlyRoleManager(): RoleManagerContract {
+  return getReadOnlyContracts().roleManager as RoleManagerContract;
+}
+
 export async function registerAsEmployer(): Promise<void> {
   try {
     const roleManager = await initializeRoleManager();
@@ -184,7 +158,7 @@ export async function registerAsEmployee(employerAddress: string): Promise<void>
 
 export async function checkEmployerRole(address: string): Promise<boolean> {
   try {
-    const roleManager = await initializeRoleManager();
+    const roleManager = getReadOnlyRoleManager();
     return await roleManager.isEmployer(address);
   } catch (error) {
     throw new Error(`Failed to check employer role: ${error}`);
@@ -193,7 +167,7 @@ export async function checkEmployerRole(address: string): Promise<boolean> {
 
 export async function checkEmployeeRole(address: string): Promise<boolean> {
   try {
-    const roleManager = await initializeRoleManager();
+    const roleManager = getReadOnlyRoleManager();
     return await roleManager.isEmployee(address);
   } catch (error) {
     throw new Error(`Failed to check employee role: ${error}`);
@@ -202,7 +176,7 @@ export async function checkEmployeeRole(address: string): Promise<boolean> {
 
 export async function getEmployerAddress(employeeAddress: string): Promise<string> {
   try {
-    const roleManager = await initializeRoleManager();
+    const roleManager = getReadOnlyRoleManager();
     return await roleManager.getEmployerOf(employeeAddress);
   } catch (error) {
     throw new Error(`Failed to get employer address: ${error}`);
@@ -214,17 +188,57 @@ export const EMPLOYER_ROLE = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("EM
 export const EMPLOYEE_ROLE = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("EMPLOYEE_ROLE"));
 export const ADMIN_ROLE = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("ADMIN_ROLE"));
 export const PAUSER_ROLE = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("PAUSER_ROLE"));
+export const DEFAULT_ADMIN_ROLE = ethers.constants.HashZero;
+
+// Admin operations default to RoleManager; pass a contract name to target any other protocol contract
+export type ProtocolContractName = keyof ProtocolContracts;
 
-export async function revokeRole(role: string, account: string): Promise<void> {
+async function getProtocolContract(contract: ProtocolContractName): Promise<Contract> {
+  const contracts = await getBlockchainContracts();
+  return contracts[contract];
+}
+
+export async function grantRole(role: string, account: string, contract: ProtocolContractName = 'roleManager'): Promise<void> {
   try {
-    const roleManager = await initializeRoleManager();
-    const tx = await roleManager.revokeRole(role, account);
+    const instance = await getProtocolContract(contract);
+    const tx = await instance.grantRole(role, account);
+    await tx.wait();
+  } catch (error) {
+    throw new Error(`Failed to grant role: ${error}`);
+  }
+}
+
+export async function revokeRole(role: string, account: string, contract: ProtocolContractName = 'roleManager'): Promise<void> {
+  try {
+    const instance = await getProtocolContract(contract);
+    const tx = await instance.revokeRole(role, account);
     await tx.wait();
   } catch (error) {
     throw new Error(`Failed to revoke role: ${error}`);
   }
 }
 
+// Bulk variants exist only on RoleManager
+export async function grantRoleToMany(role: string, accounts: string[]): Promise<void> {
+  try {
+    const roleManager = await initializeRoleManager();
+    const tx = await roleManager.grantRoleToMany(role, accounts);
+    await tx.wait();
+  } catch (error) {
+    throw new Error(`Failed to grant roles: ${error}`);
+  }
+}
+
+export async function revokeRoleFromMany(role: string, accounts: string[]): Promise<void> {
+  try {
+    const roleManager = await initializeRoleManager();
+    const tx = await roleManager.revokeRoleFromMany(role, accounts);
+    await tx.wait();
+  } catch (error) {
+    throw new Error(`Failed to revoke roles: ${error}`);
+  }
+}
+
 export async function renounceRole(role: string, account: string): Promise<void> {
   try {
     const roleManager = await initializeRoleManager();
@@ -235,31 +249,38 @@ export async function renounceRole(role: string, account: string): Promise<void>
   }
 }
 
-export async function pauseContract(): Promise<void> {
+export async function pauseContract(contract: ProtocolContractName = 'roleManager'): Promise<void> {
   try {
-    const roleManager = await initializeRoleManager();
-    const tx = await roleManager.pause();
+    const instance = await getProtocolContract(contract);
+    const tx = await instance.pause();
     await tx.wait();
   } catch (error) {
     throw new Error(`Failed to pause contract: ${error}`);
   }
 }
 
-export async function unpauseContract(): Promise<void> {
+export async function unpauseContract(contract: ProtocolContractName = 'roleManager'): Promise<void> {
   try {
-    const roleManager = await initializeRoleManager();
-    const tx = await roleManager.unpause();
+    const instance = await getProtocolContract(contract);
+    const tx = await instance.unpause();
     await tx.wait();
   } catch (error) {
     throw new Error(`Failed to unpause contract: ${error}`);
   }
 }
 
-export async function checkRole(role: string, account: string): Promise<boolean> {
+export async function isContractPaused(contract: ProtocolContractName = 'roleManager'): Promise<boolean> {
   try {
-    const roleManager = await initializeRoleManager();
-    return await roleManager.hasRole(role, account);
+    return await getReadOnlyContracts()[contract].paused();
+  } catch (error) {
+    throw new Error(`Failed to check paused state: ${error}`);
+  }
+}
+
+export async function checkRole(role: string, account: string, contract: ProtocolContractName = 'roleManager'): Promise<boolean> {
+  try {
+    return await getReadOnlyContracts()[contract].hasRole(role, account);
   } catch (error) {
     throw new Error(`Failed to check role: ${error}`);
   }
-}
\ No newline at end of file
+}
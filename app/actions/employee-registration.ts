@@ -1,7 +1,8 @@
 'use client';
 import { ethers } from 'ethers';
 
-import { registerAsEmployee } from '@/WEB3/roleAuthentication';
+import { getReadOnlyContracts } from '@/WEB3/blockchainIntergation';
+import { getReadOnlyRoleManager } from '@/WEB3/roleAuthentication';
 
 export interface EmployeeRegistrationData {
   name: string;
@@ -10,55 +11,75 @@ export interface EmployeeRegistrationData {
   schedule: string;
 }
 
+export interface EmployeeRegistrationCheck {
+  success: boolean;
+  error?: string;
+  // The employee has not yet linked their wallet to this employer in RoleManager
+  needsRegistration?: boolean;
+}
+
+// Only the employee's own wallet can call registerAsEmployee, so the employer side
+// checks the entered address up front and then schedules payroll for it
 export async function handleEmployeeRegistration(
   employerAddress: string,
   employeeData: EmployeeRegistrationData
-): Promise<{ success: boolean; error?: string }> {
+): Promise<EmployeeRegistrationCheck> {
   try {
+    const employee = employeeData.address.trim();
 
-    const provider = new ethers.providers.Web3Provider(window.ethereum);
-    console.log('Web3 Provider initialized:', provider);
+    if (!ethers.utils.isAddress(employee)) {
+      return { success: false, error: 'Please enter a valid employee wallet address.' };
+    }
 
-    await provider.send('eth_requestAccounts', []); // Request account access
-    console.log('Wallet connection approved');
+    if (employee.toLowerCase() === employerAddress.toLowerCase()) {
+      return { success: false, error: 'You cannot add your own wallet as an employee.' };
+    }
 
-    // Ensure we're connected to the correct network
-    const network = await provider.getNetwork();
-    console.log('Network:', network);
-    if (!network.chainId) {
-      throw new Error('Network not properly configured. Please check your wallet connection.');
+    const amount = Number(employeeData.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return { success: false, error: 'Payroll amount must be greater than 0.' };
     }
-    console.log('Connected to network with chainId:', network.chainId);
 
-    const signer = provider.getSigner();
-    const address = await signer.getAddress();
-    console.log('Signer address:', address);
+    const { payrollProcessor } = getReadOnlyContracts();
+    const roleManager = getReadOnlyRoleManager();
 
+    // PayrollProcessor keeps its own access control, separate from RoleManager
+    const [canSchedule, isEmployer, isEmployee] = await Promise.all([
+      payrollProcessor.hasRole(await payrollProcessor.EMPLOYER_ROLE(), employerAddress),
+      roleManager.isEmployer(employee),
+      roleManager.isEmployee(employee),
+    ]);
 
-    console.log('Employer address:', employerAddress);
-    console.log('Employee data:', employeeData);
-    // Validate employee wallet address format
+    if (!canSchedule) {
+      return {
+        success: false,
+        error: 'Your wallet does not have the employer role on the PayrollProcessor. Ask the protocol admin to grant it.',
+      };
+    }
 
-    // Register employee on the blockchain with the employer's address
-    try {
-      const tx = await registerAsEmployee(address);
-      console.log('Transaction sent:', tx);
-      return { success: true };
-    } catch (txError: any) {
-      // Handle specific transaction errors
-      if (txError.code === 'UNPREDICTABLE_GAS_LIMIT') {
-        return {
-          success: false,
-          error: 'Transaction cannot be processed. Please verify your wallet has sufficient funds and you meet all requirements.'
-        };
-      }
-      throw txError; // Re-throw other errors to be caught by the outer catch block
+    if (isEmployer) {
+      return { success: false, error: 'This wallet is registered as an employer and cannot be added as an employee.' };
     }
+
+    if (!isEmployee) {
+      return { success: true, needsRegistration: true };
+    }
+
+    // Schedules are keyed by employee, so adding someone else's employee would overwrite their payroll
+    const currentEmployer = await roleManager.getEmployerOf(employee);
+    if (currentEmployer.toLowerCase() !== employerAddress.toLowerCase()) {
+      return {
+        success: false,
+        error: 'This wallet is already registered under another employer. The employee must move to your company from their own wallet first.',
+      };
+    }
+
+    return { success: true, needsRegistration: false };
   } catch (error: any) {
-    console.error('Employee registration error:', error);
+    console.error('Employee registration check failed:', error);
     return {
       success: false,
-      error: `Failed to register as employee: ${error.message || 'Transaction failed'}`,
+      error: `Failed to check employee: ${error.message || error}`,
     };
   }
-}
\ No newline at end of file
+}
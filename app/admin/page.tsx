@@ -0,0 +1,317 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { motion } from "framer-motion"
+import { ethers } from "ethers"
+import { GlassCard } from "@/components/ui/glass-card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { fadeIn, staggerContainer } from "@/lib/animations"
+import { Pause, Play, RefreshCw, ShieldCheck, Wallet } from "lucide-react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { useProtocolAdmin } from "@/hooks/use-protocol-admin"
+import { CONTRACT_ROLES, PROTOCOL_CONTRACTS, PROTOCOL_CONTRACT_LABELS } from "@/lib/protocol-roles"
+import { explorerTxUrl } from "@/lib/payroll-history"
+import type { ProtocolContractName } from "@/WEB3/roleAuthentication"
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+
+// Accepts one address per line or a comma-separated list
+const parseAddresses = (input: string) => {
+  const entries = Array.from(new Set(input.split(/[\s,]+/).map((entry) => entry.trim()).filter(Boolean)))
+  return {
+    valid: entries.filter((entry) => ethers.utils.isAddress(entry)).map((entry) => ethers.utils.getAddress(entry)),
+    invalid: entries.filter((entry) => !ethers.utils.isAddress(entry)),
+  }
+}
+
+export default function AdminConsole() {
+  const { account, isConnected, connectWallet, formatAddress } = useWeb3()
+  const { holders, statuses, adminOf, isAdmin, isLoading, isSubmitting, refresh, grant, revoke, setContractPaused } =
+    useProtocolAdmin()
+
+  const [contract, setContract] = useState<ProtocolContractName>("roleManager")
+  const [role, setRole] = useState(CONTRACT_ROLES.roleManager[0])
+  const [addressInput, setAddressInput] = useState("")
+  const [holderFilter, setHolderFilter] = useState<ProtocolContractName | "all">("all")
+
+  const { valid, invalid } = useMemo(() => parseAddresses(addressInput), [addressInput])
+  const canManage = !!adminOf?.includes(contract)
+
+  const visibleHolders =
+    holderFilter === "all" ? holders : holders.filter((holder) => holder.contract === holderFilter)
+
+  const handleContractChange = (next: ProtocolContractName) => {
+    setContract(next)
+    if (!CONTRACT_ROLES[next].includes(role)) setRole(CONTRACT_ROLES[next][0])
+  }
+
+  const handleRoleChange = async (change: "grant" | "revoke") => {
+    const applied = await (change === "grant" ? grant : revoke)(contract, role, valid)
+    if (applied) setAddressInput("")
+  }
+
+  const renderGate = () => {
+    if (!isConnected || !account) {
+      return (
+        <GlassCard className="p-8 text-center space-y-4">
+          <p className="text-muted-foreground">Connect an admin wallet to manage protocol roles.</p>
+          <Button variant="outline" className="gap-2" onClick={connectWallet}>
+            <Wallet className="h-4 w-4" />
+            Connect Wallet
+          </Button>
+        </GlassCard>
+      )
+    }
+    if (adminOf === null) {
+      return <GlassCard className="p-8 text-center text-muted-foreground">Checking your roles...</GlassCard>
+    }
+    return (
+      <GlassCard className="p-8 text-center space-y-2">
+        <p className="font-medium">Access restricted</p>
+        <p className="text-sm text-muted-foreground">
+          {formatAddress(account)} does not hold DEFAULT_ADMIN_ROLE on any protocol contract or ADMIN_ROLE on the
+          Role Manager.
+        </p>
+      </GlassCard>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <main className="flex-grow py-8">
+        <div className="container mx-auto px-4">
+          <motion.div variants={staggerContainer} initial="hidden" animate="show" className="space-y-8">
+            <motion.div
+              variants={fadeIn("down")}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-4"
+            >
+              <div>
+                <h1 className="text-3xl font-bold">Protocol Admin</h1>
+                <p className="text-muted-foreground">Manage roles and pause state across the protocol contracts</p>
+              </div>
+
+              {isAdmin && (
+                <Button variant="outline" className="gap-2" onClick={refresh} disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+                  Refresh
+                </Button>
+              )}
+            </motion.div>
+
+            {!isAdmin ? (
+              <motion.div variants={fadeIn("up")}>{renderGate()}</motion.div>
+            ) : (
+              <>
+                <motion.div variants={fadeIn("up")}>
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Contracts</CardTitle>
+                      <CardDescription>Pausing a contract blocks its transfers and state changes until unpaused</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="rounded-md border">
+                        {PROTOCOL_CONTRACTS.map((name) => (
+                          <div key={name} className="flex items-center justify-between gap-4 p-3 text-sm border-t first:border-t-0">
+                            <div className="font-medium">{PROTOCOL_CONTRACT_LABELS[name]}</div>
+                            <div className="flex items-center gap-3">
+                              <span
+                                className={`px-2 py-1 rounded-full text-xs ${
+                                  statuses[name] === "unknown"
+                                    ? "bg-muted text-muted-foreground"
+                                    : statuses[name] === "paused"
+                                      ? "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400"
+                                      : "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400"
+                                }`}
+                              >
+                                {statuses[name] === "unknown" ? "Unknown" : statuses[name] === "paused" ? "Paused" : "Active"}
+                              </span>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-2 w-28"
+                                disabled={isSubmitting || statuses[name] === "unknown"}
+                                onClick={() => setContractPaused(name, statuses[name] !== "paused")}
+                              >
+                                {statuses[name] === "paused" ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                                {statuses[name] === "paused" ? "Unpause" : "Pause"}
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </motion.div>
+
+                <motion.div variants={fadeIn("up", 0.05)}>
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Grant or Revoke Roles</CardTitle>
+                      <CardDescription>
+                        Role Manager changes for several accounts are sent as a single transaction; other contracts
+                        take one transaction per account
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium">Contract</label>
+                          <select
+                            className={selectClassName}
+                            value={contract}
+                            onChange={(e) => handleContractChange(e.target.value as ProtocolContractName)}
+                          >
+                            {PROTOCOL_CONTRACTS.map((name) => (
+                              <option key={name} value={name}>
+                                {PROTOCOL_CONTRACT_LABELS[name]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium">Role</label>
+                          <select className={selectClassName} value={role} onChange={(e) => setRole(e.target.value)}>
+                            {CONTRACT_ROLES[contract].map((name) => (
+                              <option key={name}>{name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Accounts</label>
+                        <Textarea
+                          placeholder="One address per line, or separated by commas"
+                          className="font-mono"
+                          value={addressInput}
+                          onChange={(e) => setAddressInput(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          {valid.length} valid {valid.length === 1 ? "address" : "addresses"}
+                          {invalid.length > 0 && (
+                            <span className="text-red-500">
+                              {" "}
+                              · {invalid.length} invalid: {invalid.slice(0, 3).join(", ")}
+                              {invalid.length > 3 ? "..." : ""}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+
+                      {!canManage && (
+                        <p className="text-sm text-yellow-600">
+                          Your wallet is not an admin of the {PROTOCOL_CONTRACT_LABELS[contract]}, so this change will
+                          be rejected.
+                        </p>
+                      )}
+                    </CardContent>
+                    <CardFooter className="gap-3">
+                      <Button
+                        onClick={() => handleRoleChange("grant")}
+                        disabled={isSubmitting || !canManage || valid.length === 0 || invalid.length > 0}
+                      >
+                        {isSubmitting ? "Submitting..." : "Grant"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => handleRoleChange("revoke")}
+                        disabled={isSubmitting || !canManage || valid.length === 0 || invalid.length > 0}
+                      >
+                        Revoke
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                </motion.div>
+
+                <motion.div variants={fadeIn("up", 0.1)}>
+                  <Card>
+                    <CardHeader className="flex flex-col md:flex-row md:items-center justify-between space-y-2 md:space-y-0">
+                      <div>
+                        <CardTitle>Role Holders</CardTitle>
+                        <CardDescription>Current members, rebuilt from RoleGranted and RoleRevoked events</CardDescription>
+                      </div>
+                      <select
+                        className={`${selectClassName} md:w-56`}
+                        value={holderFilter}
+                        onChange={(e) => setHolderFilter(e.target.value as ProtocolContractName | "all")}
+                      >
+                        <option value="all">All contracts</option>
+                        {PROTOCOL_CONTRACTS.map((name) => (
+                          <option key={name} value={name}>
+                            {PROTOCOL_CONTRACT_LABELS[name]}
+                          </option>
+                        ))}
+                      </select>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="rounded-md border">
+                        <div className="grid grid-cols-12 bg-muted/50 p-3 text-sm font-medium">
+                          <div className="col-span-3">Contract</div>
+                          <div className="col-span-3">Role</div>
+                          <div className="col-span-3">Account</div>
+                          <div className="col-span-2">Granted In</div>
+                          <div className="col-span-1"></div>
+                        </div>
+
+                        {isLoading && holders.length === 0 && (
+                          <div className="border-t p-6 text-center text-sm text-muted-foreground">Loading role holders...</div>
+                        )}
+
+                        {!isLoading && visibleHolders.length === 0 && (
+                          <div className="border-t p-6 text-center text-sm text-muted-foreground">No role holders found.</div>
+                        )}
+
+                        {visibleHolders.map((holder) => (
+                          <div
+                            key={`${holder.contract}-${holder.role}-${holder.account}`}
+                            className="grid grid-cols-12 items-center border-t p-3 text-sm"
+                          >
+                            <div className="col-span-3">{PROTOCOL_CONTRACT_LABELS[holder.contract]}</div>
+                            <div className="col-span-3 flex items-center gap-1">
+                              {holder.role === ethers.constants.HashZero && <ShieldCheck className="h-4 w-4 text-purple-500" />}
+                              {holder.roleName}
+                            </div>
+                            <div className="col-span-3 font-mono" title={holder.account}>
+                              {formatAddress(holder.account)}
+                              {holder.account.toLowerCase() === account?.toLowerCase() && (
+                                <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                              )}
+                            </div>
+                            <div className="col-span-2 font-mono text-muted-foreground">
+                              <a href={explorerTxUrl(holder.txHash)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                {formatAddress(holder.txHash)}
+                              </a>
+                            </div>
+                            <div className="col-span-1 text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={isSubmitting || !adminOf?.includes(holder.contract)}
+                                onClick={() => revoke(holder.contract, holder.role, [holder.account])}
+                              >
+                                Revoke
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                    <CardFooter>
+                      <div className="text-sm text-muted-foreground">
+                        Showing <span className="font-medium">{visibleHolders.length}</span> of{" "}
+                        <span className="font-medium">{holders.length}</span> role assignments
+                      </div>
+                    </CardFooter>
+                  </Card>
+                </motion.div>
+              </>
+            )}
+          </motion.div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { randomBytes } from "crypto"
+import { NextResponse } from "next/server"
+import { issueSignInChallenge, isWalletSessionConfigured } from "@/lib/wallet-session"
+import type { SignInChallenge } from "@/lib/wallet-auth"
+
+// Every sign-in needs a fresh nonce; never serve one from cache
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  if (!isWalletSessionConfigured()) {
+    return NextResponse.json({ error: "Wallet sessions are not configured" }, { status: 503 })
+  }
+
+  const challenge: SignInChallenge = {
+    nonce: randomBytes(16).toString("hex"),
+    issuedAt: new Date().toISOString(),
+  }
+  const response = NextResponse.json(challenge)
+  issueSignInChallenge(response, challenge)
+  return response
+}
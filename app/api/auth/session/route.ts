@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import { ethers } from "ethers"
+import { z } from "zod"
+import { buildSignInMessage } from "@/lib/wallet-auth"
+import {
+  endWalletSession,
+  getSessionAddress,
+  isWalletSessionConfigured,
+  startWalletSession,
+  takeSignInChallenge,
+} from "@/lib/wallet-session"
+
+export const dynamic = "force-dynamic"
+
+const signInSchema = z.object({
+  address: z.string().refine((value) => ethers.utils.isAddress(value), "Invalid wallet address"),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, "Invalid signature"),
+})
+
+export async function GET(request: NextRequest) {
+  const address = getSessionAddress(request)
+  if (!address) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+  }
+
+  return NextResponse.json({ address })
+}
+
+// Verifies the signed sign-in message against the nonce this browser was issued
+export async function POST(request: NextRequest) {
+  if (!isWalletSessionConfigured()) {
+    return NextResponse.json({ error: "Wallet sessions are not configured" }, { status: 503 })
+  }
+
+  const parsed = signInSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Invalid sign-in" }, { status: 400 })
+  }
+
+  const challenge = takeSignInChallenge(request)
+  if (!challenge) {
+    return NextResponse.json({ error: "Sign-in challenge is missing or expired. Please try again." }, { status: 401 })
+  }
+
+  const { address, signature } = parsed.data
+  const message = buildSignInMessage({
+    ...challenge,
+    domain: request.nextUrl.host,
+    uri: request.headers.get("origin") || request.nextUrl.origin,
+    address,
+  })
+
+  let signer: string | null
+  try {
+    signer = ethers.utils.verifyMessage(message, signature)
+  } catch {
+    signer = null
+  }
+  if (!signer || signer.toLowerCase() !== address.toLowerCase()) {
+    return NextResponse.json({ error: "Signature does not match the wallet address" }, { status: 401 })
+  }
+
+  const response = NextResponse.json({ address: signer })
+  startWalletSession(response, signer)
+  return response
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ signedOut: true })
+  endWalletSession(response)
+  return response
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import { ethers } from "ethers"
+import { z } from "zod"
+import { deleteEmployeeProfile, listEmployeeProfiles, upsertEmployeeProfile } from "@/lib/employee-directory-store"
+import { authorizeWallet } from "@/lib/wallet-session"
+
+const address = z.string().refine((value) => ethers.utils.isAddress(value), "Invalid wallet address")
+
+const profileSchema = z.object({
+  employer: address,
+  employee: address,
+  name: z.string().trim().min(1, "Name is required").max(200),
+  email: z.string().trim().email().or(z.literal("")).optional(),
+  department: z.string().trim().max(200).optional(),
+  startDate: z.string().trim().max(50).optional(),
+  notes: z.string().max(2000).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  const employer = request.nextUrl.searchParams.get("employer")
+  if (!employer || !ethers.utils.isAddress(employer)) {
+    return NextResponse.json({ error: "A valid employer address is required" }, { status: 400 })
+  }
+  // Only the employer's own signed-in wallet may touch its directory
+  const denied = authorizeWallet(request, employer)
+  if (denied) return denied
+
+  return NextResponse.json({ profiles: await listEmployeeProfiles(employer) })
+}
+
+export async function PUT(request: NextRequest) {
+  const parsed = profileSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Invalid profile" }, { status: 400 })
+  }
+  const denied = authorizeWallet(request, parsed.data.employer)
+  if (denied) return denied
+
+  return NextResponse.json({ profile: await upsertEmployeeProfile(parsed.data) })
+}
+
+export async function DELETE(request: NextRequest) {
+  const employer = request.nextUrl.searchParams.get("employer")
+  const employee = request.nextUrl.searchParams.get("employee")
+  if (!employer || !employee || !ethers.utils.isAddress(employer) || !ethers.utils.isAddress(employee)) {
+    return NextResponse.json({ error: "Valid employer and employee addresses are required" }, { status: 400 })
+  }
+  const denied = authorizeWallet(request, employer)
+  if (denied) return denied
+
+  const deleted = await deleteEmployeeProfile(employer, employee)
+  return NextResponse.json({ deleted }, { status: deleted ? 200 : 404 })
+}
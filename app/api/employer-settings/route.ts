@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import { ethers } from "ethers"
+import { z } from "zod"
+import { getEmployerSettings, saveEmployerSettings } from "@/lib/employer-settings-store"
+import { DEFAULT_CURRENCIES } from "@/lib/employer-settings"
+import { authorizeWallet } from "@/lib/wallet-session"
+
+const settingsSchema = z.object({
+  employer: z.string().refine((value) => ethers.utils.isAddress(value), "Invalid wallet address"),
+  defaultSchedule: z.enum(["Weekly", "Bi-weekly", "Monthly"]),
+  defaultCurrency: z.enum(DEFAULT_CURRENCIES),
+  companyName: z.string().trim().max(200).optional(),
+  companyAddress: z.string().trim().max(500).optional(),
+  taxId: z.string().trim().max(100).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  const employer = request.nextUrl.searchParams.get("employer")
+  if (!employer || !ethers.utils.isAddress(employer)) {
+    return NextResponse.json({ error: "A valid employer address is required" }, { status: 400 })
+  }
+  // Only the employer's own signed-in wallet may touch its settings
+  const denied = authorizeWallet(request, employer)
+  if (denied) return denied
+
+  return NextResponse.json({ settings: await getEmployerSettings(employer) })
+}
+
+export async function PUT(request: NextRequest) {
+  const parsed = settingsSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Invalid settings" }, { status: 400 })
+  }
+  const denied = authorizeWallet(request, parsed.data.employer)
+  if (denied) return denied
+
+  return NextResponse.json({ settings: await saveEmployerSettings(parsed.data) })
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import { ethers } from "ethers"
+import { z } from "zod"
+import { verifyInvitation, type ClaimedInvitation } from "@/lib/employee-invitation"
+import {
+  isInvitationClaimed,
+  listClaimedInvitations,
+  markInvitationApplied,
+  recordInvitationClaim,
+} from "@/lib/employee-invitation-store"
+import { authorizeWallet, getSessionAddress } from "@/lib/wallet-session"
+import { getReadOnlyRoleManager } from "@/WEB3/roleAuthentication"
+
+export const dynamic = "force-dynamic"
+
+const address = z.string().refine((value) => ethers.utils.isAddress(value), "Invalid wallet address")
+const nonce = z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Invalid invitation nonce")
+
+const signedInvitationSchema = z.object({
+  invitation: z.object({
+    employer: address,
+    employee: address,
+    amount: z.string().regex(/^\d+$/, "Invalid amount"),
+    // setPayrollSchedule rejects a zero interval, so such terms could never be applied
+    interval: z.number().int().positive(),
+    expiry: z.number().int().nonnegative(),
+    nonce,
+  }),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, "Invalid signature"),
+})
+
+const appliedSchema = z.object({ employer: address, nonce })
+
+// `?nonce=` tells anyone whether a link was already used; `?employer=` lists that employer's claims
+export async function GET(request: NextRequest) {
+  const nonceParam = request.nextUrl.searchParams.get("nonce")
+  if (nonceParam) {
+    if (!nonce.safeParse(nonceParam).success) {
+      return NextResponse.json({ error: "Invalid invitation nonce" }, { status: 400 })
+    }
+    return NextResponse.json({ claimed: await isInvitationClaimed(nonceParam) })
+  }
+
+  const employer = request.nextUrl.searchParams.get("employer")
+  if (!employer || !ethers.utils.isAddress(employer)) {
+    return NextResponse.json({ error: "A valid employer address or nonce is required" }, { status: 400 })
+  }
+  const denied = authorizeWallet(request, employer)
+  if (denied) return denied
+
+  return NextResponse.json({ claims: await listClaimedInvitations(employer) })
+}
+
+// The signed-in employee claims an invitation after registering under its employer
+export async function POST(request: NextRequest) {
+  const parsed = signedInvitationSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Invalid invitation" }, { status: 400 })
+  }
+
+  const claimant = getSessionAddress(request)
+  if (!claimant) {
+    return NextResponse.json({ error: "Sign in with your wallet first" }, { status: 401 })
+  }
+
+  try {
+    await verifyInvitation(parsed.data, claimant)
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || "Invalid invitation" }, { status: 400 })
+  }
+
+  const { invitation } = parsed.data
+  const notRegistered = () =>
+    NextResponse.json({ error: "Register under the inviting employer before claiming" }, { status: 409 })
+  let employerOf: string
+  try {
+    employerOf = await getReadOnlyRoleManager().getEmployerOf(claimant)
+  } catch (error: any) {
+    // getEmployerOf reverts with "Not an employee" until the claimant has registered
+    if (error?.code === ethers.errors.CALL_EXCEPTION) return notRegistered()
+    console.error("Failed to read the claimant's employer:", error)
+    return NextResponse.json({ error: "Failed to check the employee's registration" }, { status: 500 })
+  }
+  if (employerOf.toLowerCase() !== invitation.employer.toLowerCase()) return notRegistered()
+
+  const claim: ClaimedInvitation = { ...parsed.data, claimant, claimedAt: new Date().toISOString() }
+  const recorded = await recordInvitationClaim(claim)
+  if (!recorded) {
+    return NextResponse.json({ error: "This invitation has already been claimed" }, { status: 409 })
+  }
+
+  return NextResponse.json({ claim: recorded })
+}
+
+// The employer marks the agreed terms as scheduled on chain
+export async function PATCH(request: NextRequest) {
+  const parsed = appliedSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || "Invalid request" }, { status: 400 })
+  }
+  const denied = authorizeWallet(request, parsed.data.employer)
+  if (denied) return denied
+
+  const claim = await markInvitationApplied(parsed.data.employer, parsed.data.nonce)
+  if (!claim) {
+    return NextResponse.json({ error: "No claimed invitation with this nonce" }, { status: 404 })
+  }
+
+  return NextResponse.json({ claim })
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import { ethers } from "ethers"
+import { listPayrollRuns } from "@/lib/payroll-run-store"
+import { isAutomatedEmployer } from "@/lib/payroll-scheduler"
+import type { PayrollSchedulerStatus } from "@/lib/payroll-runs"
+import { authorizeWallet } from "@/lib/wallet-session"
+
+export async function GET(request: NextRequest) {
+  const employer = request.nextUrl.searchParams.get("employer")
+  if (!employer || !ethers.utils.isAddress(employer)) {
+    return NextResponse.json({ error: "A valid employer address is required" }, { status: 400 })
+  }
+  // Only the employer's own signed-in wallet may read its runs
+  const denied = authorizeWallet(request, employer)
+  if (denied) return denied
+
+  const status: PayrollSchedulerStatus = {
+    automated: isAutomatedEmployer(employer),
+    runs: await listPayrollRuns(employer),
+  }
+  return NextResponse.json(status)
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import { runScheduledPayroll } from "@/lib/payroll-scheduler"
+
+// Always run on request; cron hits must never be served from cache
+export const dynamic = "force-dynamic"
+
+// Triggered by a cron job (Vercel Cron, or curl from crontab) sending `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: "Payroll scheduler is not configured" }, { status: 503 })
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 401 })
+  }
+
+  try {
+    const runs = await runScheduledPayroll()
+    return NextResponse.json({ runs })
+  } catch (error: any) {
+    console.error("Scheduled payroll failed:", error)
+    return NextResponse.json({ error: error?.message || "Scheduled payroll failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { fetchReservesSnapshot } from "@/lib/reserves"
+import { isReservesSigningConfigured, signReservesSnapshot } from "@/lib/reserves-signer"
+
+// Each request attests to the latest block, so never serve a cached snapshot
+export const dynamic = "force-dynamic"
+
+// Public and wallet-less: anyone can fetch a signed snapshot and re-check it against the chain
+export async function GET() {
+  if (!isReservesSigningConfigured()) {
+    return NextResponse.json({ error: "Reserves signing is not configured" }, { status: 503 })
+  }
+
+  try {
+    const signed = await signReservesSnapshot(await fetchReservesSnapshot())
+    return NextResponse.json(signed, {
+      headers: {
+        "Content-Disposition": `attachment; filename="spay-reserves-${signed.snapshot.blockNumber}.json"`,
+      },
+    })
+  } catch (error: any) {
+    console.error("Reserves snapshot failed:", error)
+    return NextResponse.json({ error: error?.message || "Reserves snapshot failed" }, { status: 500 })
+  }
+}
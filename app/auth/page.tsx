@@ -1,11 +1,12 @@
 "use client"
 
-import { useEffect } from 'react'
-import { useRouter } from 'next/navigation'
+import { Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { RoleAuth } from '@/WEB3/components/RoleAuth'
 
-export default function AuthPage() {
+function AuthContent() {
   const router = useRouter()
+  const searchParams = useSearchParams()
 
   const handleRoleConfirmed = (role: 'employer' | 'employee' | null) => {
     if (role === 'employer') {
@@ -15,11 +16,18 @@ export default function AuthPage() {
     }
   }
 
+  return <RoleAuth onRoleConfirmed={handleRoleConfirmed} invitation={searchParams.get('invite')} />
+}
+
+export default function AuthPage() {
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-b from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
       <main className="flex-grow flex items-center justify-center py-8">
-        <RoleAuth onRoleConfirmed={handleRoleConfirmed} />
+        {/* Search params (invite links) are only available client-side */}
+        <Suspense>
+          <AuthContent />
+        </Suspense>
       </main>
     </div>
   )
-}
\ No newline at end of file
+}
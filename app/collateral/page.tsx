@@ -0,0 +1,374 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { motion } from "framer-motion"
+import { ethers } from "ethers"
+import { GlassCard } from "@/components/ui/glass-card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { CollateralHistoryChart } from "@/components/collateral-history-chart"
+import { ContractPausedBanner } from "@/components/contract-paused-banner"
+import { fadeIn, staggerContainer } from "@/lib/animations"
+import { Coins, Gauge, Landmark, Lock, RefreshCw, Unlock } from "lucide-react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { useContractStatus } from "@/providers/contract-status-provider"
+import { useCollateralManager } from "@/hooks/use-collateral-manager"
+import { collateralHealth, collateralRatioBps, type CollateralEventKind, type CollateralHealth } from "@/lib/collateral"
+import { explorerTxUrl } from "@/lib/payroll-history"
+import { formatBps, formatDate, formatTokenAmount, formatUSDAmount } from "@/lib/utils"
+
+const healthStyles: Record<CollateralHealth, string> = {
+  healthy: "text-green-500",
+  warning: "text-yellow-600",
+  critical: "text-red-500",
+  "no-supply": "text-muted-foreground",
+}
+
+const healthLabels: Record<CollateralHealth, string> = {
+  healthy: "At or above target",
+  warning: "Below target, above minimum",
+  critical: "Below minimum — releases are blocked",
+  "no-supply": "No SPAY outstanding",
+}
+
+const eventLabels: Record<CollateralEventKind, string> = {
+  lock: "Locked",
+  release: "Released",
+  ratio: "Target ratio",
+}
+
+const HISTORY_ROWS = 10
+
+// Parses a user-entered token amount, or null while the input is empty or malformed
+const parseAmount = (value: string, decimals: number) => {
+  try {
+    const amount = ethers.utils.parseUnits(value, decimals)
+    return amount.gt(0) ? amount : null
+  } catch {
+    return null
+  }
+}
+
+export default function CollateralDashboard() {
+  const { account, formatAddress } = useWeb3()
+  const { isPaused } = useContractStatus()
+  const { overview, history, isManager, isAdmin, isLoading, isSubmitting, refresh, lock, release, updateRatio } =
+    useCollateralManager()
+
+  const [lockAmount, setLockAmount] = useState("")
+  const [releaseAmount, setReleaseAmount] = useState("")
+  const [recipient, setRecipient] = useState("")
+  const [targetRatio, setTargetRatio] = useState("")
+
+  useEffect(() => {
+    if (account && !recipient) setRecipient(account)
+  }, [account, recipient])
+
+  useEffect(() => {
+    if (overview) setTargetRatio(String(overview.targetRatioBps / 100))
+  }, [overview?.targetRatioBps])
+
+  const decimals = overview?.etfDecimals ?? 18
+  const etf = (value: ethers.BigNumber) => `${formatTokenAmount(value, decimals, 4)} ETF`
+  const ratioLabel = (bps: number | null) => (bps === null ? "∞" : formatBps(bps))
+
+  const health = overview ? collateralHealth(overview.ratioBps, overview.minRatioBps, overview.targetRatioBps) : null
+
+  // Ratio after locking (1) or releasing (-1) `delta` ETF; undefined when there is nothing to project
+  const projectRatio = (delta: ethers.BigNumber | null, direction: 1 | -1) => {
+    if (!overview || !delta) return undefined
+    const next = direction === 1 ? overview.totalLocked.add(delta) : overview.totalLocked.sub(delta)
+    if (next.isNegative()) return undefined
+    return collateralRatioBps(next, overview.etfPriceUsd, overview.spaySupply)
+  }
+
+  const lockDelta = parseAmount(lockAmount, decimals)
+  const releaseDelta = parseAmount(releaseAmount, decimals)
+  const projectedAfterLock = projectRatio(lockDelta, 1)
+  const projectedAfterRelease = projectRatio(releaseDelta, -1)
+  const releaseBlocked =
+    !!overview &&
+    (projectedAfterRelease === undefined
+      ? !!releaseDelta
+      : projectedAfterRelease !== null && projectedAfterRelease < overview.minRatioBps)
+
+  const newTargetBps = Math.round(Number(targetRatio) * 100)
+
+  const recentHistory = [...history].reverse().slice(0, HISTORY_ROWS)
+
+  const handleLock = async () => {
+    if (await lock(lockAmount)) setLockAmount("")
+  }
+
+  const handleRelease = async () => {
+    if (await release(releaseAmount, recipient.trim())) setReleaseAmount("")
+  }
+
+  const renderProjection = (projected: number | null | undefined) => {
+    if (projected === undefined || !overview) return null
+    const projectedHealth = collateralHealth(projected, overview.minRatioBps, overview.targetRatioBps)
+    return (
+      <p className="text-xs text-muted-foreground">
+        Projected ratio:{" "}
+        <span className={`font-medium ${healthStyles[projectedHealth]}`}>{ratioLabel(projected)}</span> (now{" "}
+        {ratioLabel(overview.ratioBps)})
+      </p>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <main className="flex-grow py-8">
+        <div className="container mx-auto px-4">
+          <motion.div variants={staggerContainer} initial="hidden" animate="show" className="space-y-8">
+            <motion.div
+              variants={fadeIn("down")}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-4"
+            >
+              <div>
+                <h1 className="text-3xl font-bold">Collateral</h1>
+                <p className="text-muted-foreground">ETF collateral backing the SPAY stablecoin</p>
+              </div>
+
+              <Button variant="outline" className="gap-2" onClick={refresh} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+            </motion.div>
+
+            {isManager && <ContractPausedBanner actions={{ collateral: "locking and releasing collateral" }} />}
+
+            <motion.div variants={fadeIn("up")} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {[
+                {
+                  title: "Collateral Locked",
+                  value: overview ? etf(overview.totalLocked) : "-",
+                  description: overview ? `${formatUSDAmount(overview.collateralValueUsd)} at the current ETF price` : "-",
+                  icon: <Lock className="h-5 w-5 text-blue-500" />,
+                },
+                {
+                  title: "Collateral Ratio",
+                  value: overview ? ratioLabel(overview.ratioBps) : "-",
+                  description: overview
+                    ? `Minimum ${formatBps(overview.minRatioBps)} · Target ${formatBps(overview.targetRatioBps)}`
+                    : "-",
+                  icon: <Gauge className="h-5 w-5 text-purple-500" />,
+                  change: health ? healthLabels[health] : undefined,
+                  changeColor: health ? healthStyles[health] : undefined,
+                },
+                {
+                  title: "SPAY Supply Backed",
+                  value: overview ? `${formatTokenAmount(overview.spaySupply, overview.spayDecimals)} SPAY` : "-",
+                  description: "Total SPAY in circulation",
+                  icon: <Landmark className="h-5 w-5 text-pink-500" />,
+                },
+                {
+                  title: "ETF Price",
+                  value: overview ? formatUSDAmount(overview.etfPriceUsd) : "-",
+                  description: "Used to value the collateral",
+                  icon: <Coins className="h-5 w-5 text-emerald-500" />,
+                },
+              ].map((stat) => (
+                <GlassCard key={stat.title} className="p-6">
+                  <div className="flex justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">{stat.title}</p>
+                      <p className="text-2xl font-bold mt-2">{stat.value}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{stat.description}</p>
+                      {stat.change && <p className={`text-xs ${stat.changeColor} mt-2`}>{stat.change}</p>}
+                    </div>
+                    <div className="h-12 w-12 rounded-full bg-background flex items-center justify-center">
+                      {stat.icon}
+                    </div>
+                  </div>
+                </GlassCard>
+              ))}
+            </motion.div>
+
+            <motion.div variants={fadeIn("up", 0.05)}>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Collateral History</CardTitle>
+                  <CardDescription>
+                    ETF locked over time from CollateralLocked and CollateralReleased events; dashed lines mark target
+                    ratio changes
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <CollateralHistoryChart
+                    history={history}
+                    currentLocked={overview?.totalLocked ?? ethers.constants.Zero}
+                    decimals={decimals}
+                  />
+
+                  {recentHistory.length > 0 && (
+                    <div className="rounded-md border">
+                      <div className="grid grid-cols-12 bg-muted/50 p-3 text-sm font-medium">
+                        <div className="col-span-3">Date</div>
+                        <div className="col-span-2">Event</div>
+                        <div className="col-span-3">Change</div>
+                        <div className="col-span-2">Locked After</div>
+                        <div className="col-span-2">Transaction</div>
+                      </div>
+                      {recentHistory.map((entry) => (
+                        <div
+                          key={`${entry.txHash}-${entry.logIndex}`}
+                          className="grid grid-cols-12 items-center border-t p-3 text-sm"
+                        >
+                          <div className="col-span-3">{formatDate(entry.timestamp)}</div>
+                          <div className="col-span-2">{eventLabels[entry.kind]}</div>
+                          <div className="col-span-3">
+                            {entry.kind === "ratio"
+                              ? formatBps(entry.newRatioBps!)
+                              : `${entry.kind === "lock" ? "+" : "-"}${etf(entry.amount!)}`}
+                          </div>
+                          <div className="col-span-2">{etf(entry.totalLocked)}</div>
+                          <div className="col-span-2 font-mono text-muted-foreground">
+                            <a href={explorerTxUrl(entry.txHash)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                              {formatAddress(entry.txHash)}
+                            </a>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </motion.div>
+
+            {(isManager || isAdmin) && (
+              <motion.div variants={fadeIn("up", 0.1)} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {isManager && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Lock Collateral</CardTitle>
+                      <CardDescription>Move ETF from your wallet into the collateral pool</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <label className="text-sm font-medium">Amount</label>
+                      <Input
+                        type="number"
+                        placeholder="ETF amount"
+                        value={lockAmount}
+                        onChange={(e) => setLockAmount(e.target.value)}
+                      />
+                      {renderProjection(projectedAfterLock)}
+                    </CardContent>
+                    <CardFooter>
+                      <Button
+                        className="w-full gap-2"
+                        onClick={handleLock}
+                        disabled={isSubmitting || !lockDelta || isPaused("collateral")}
+                      >
+                        <Lock className="h-4 w-4" />
+                        {isSubmitting ? "Processing..." : "Lock Collateral"}
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                )}
+
+                {isManager && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Release Collateral</CardTitle>
+                      <CardDescription>
+                        Send locked ETF to a recipient, as long as the ratio stays above the minimum
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Amount</label>
+                        <Input
+                          type="number"
+                          placeholder="ETF amount"
+                          value={releaseAmount}
+                          onChange={(e) => setReleaseAmount(e.target.value)}
+                        />
+                        {renderProjection(projectedAfterRelease)}
+                        {releaseBlocked && (
+                          <p className="text-xs text-red-500">
+                            {projectedAfterRelease === undefined
+                              ? "More than the collateral currently locked."
+                              : `Would fall below the ${formatBps(overview!.minRatioBps)} minimum.`}
+                          </p>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Recipient</label>
+                        <Input
+                          placeholder="0x..."
+                          className="font-mono"
+                          value={recipient}
+                          onChange={(e) => setRecipient(e.target.value)}
+                        />
+                      </div>
+                    </CardContent>
+                    <CardFooter>
+                      <Button
+                        variant="outline"
+                        className="w-full gap-2"
+                        onClick={handleRelease}
+                        disabled={isSubmitting || !releaseDelta || releaseBlocked || isPaused("collateral")}
+                      >
+                        <Unlock className="h-4 w-4" />
+                        {isSubmitting ? "Processing..." : "Release Collateral"}
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                )}
+
+                {isAdmin && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Target Ratio</CardTitle>
+                      <CardDescription>
+                        The collateralization the protocol aims for. Only the CollateralManager admin can change it.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <label className="text-sm font-medium">New Target</label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={100}
+                          step={0.01}
+                          value={targetRatio}
+                          onChange={(e) => setTargetRatio(e.target.value)}
+                        />
+                        <span>%</span>
+                      </div>
+                      {overview && Number.isInteger(newTargetBps) && newTargetBps >= 10000 && (
+                        <p className="text-xs text-muted-foreground">
+                          Current ratio {ratioLabel(overview.ratioBps)} would be{" "}
+                          <span
+                            className={`font-medium ${
+                              healthStyles[collateralHealth(overview.ratioBps, overview.minRatioBps, newTargetBps)]
+                            }`}
+                          >
+                            {overview.ratioBps === null || overview.ratioBps >= newTargetBps ? "at or above" : "below"}
+                          </span>{" "}
+                          the new target.
+                        </p>
+                      )}
+                    </CardContent>
+                    <CardFooter>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => updateRatio(newTargetBps)}
+                        disabled={isSubmitting || !overview || newTargetBps === overview.targetRatioBps}
+                      >
+                        {isSubmitting ? "Processing..." : "Update Target Ratio"}
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                )}
+              </motion.div>
+            )}
+          </motion.div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { motion } from "framer-motion"
+import { ethers } from "ethers"
 // Removed Navbar and Footer imports for employee dashboard
 import { GlassCard } from "@/components/ui/glass-card"
 import { GradientButton } from "@/components/ui/gradient-button"
@@ -21,23 +22,85 @@ import {
   Unlock,
   PiggyBank,
   Download,
+  FileText,
 } from "lucide-react"
 import { useWeb3 } from "@/providers/web3-provider"
 import { useSPAYToken } from "@/hooks/use-spay-token"
 import { useETFToken } from "@/hooks/use-etf-token"
 import { useInvestmentManager } from "@/hooks/use-investment-manager"
 import { useSavingsManager } from "@/hooks/use-savings-manager"
+import { usePayslips } from "@/hooks/use-payslips"
+import { useActivityHistory, type ActivityFilter } from "@/hooks/use-activity-history"
+import type { ActivityEntry, ActivityKind } from "@/lib/activity-history"
+import { PayslipModal } from "@/components/modals/payslip-modal"
+import type { Payslip } from "@/lib/payslips"
 import { NetworkInfo } from "@/components/network-info"
+import { ContractPausedBanner } from "@/components/contract-paused-banner"
+import { useContractStatus } from "@/providers/contract-status-provider"
+import { formatDate, formatDuration, formatTokenAmount } from "@/lib/utils"
+
+const activityStyles: Record<ActivityKind, { icon: typeof ArrowRight; iconClass: string; amountClass: string }> = {
+  payroll: {
+    icon: ArrowRight,
+    iconClass: "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400",
+    amountClass: "text-green-600 dark:text-green-400",
+  },
+  invest: {
+    icon: LineChart,
+    iconClass: "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400",
+    amountClass: "text-blue-600 dark:text-blue-400",
+  },
+  "withdraw-investment": {
+    icon: ArrowDown,
+    iconClass: "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400",
+    amountClass: "text-green-600 dark:text-green-400",
+  },
+  yield: {
+    icon: DollarSign,
+    iconClass: "bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400",
+    amountClass: "text-green-600 dark:text-green-400",
+  },
+  "lock-savings": {
+    icon: Lock,
+    iconClass: "bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400",
+    amountClass: "text-purple-600 dark:text-purple-400",
+  },
+  "withdraw-savings": {
+    icon: Unlock,
+    iconClass: "bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400",
+    amountClass: "text-green-600 dark:text-green-400",
+  },
+  "transfer-in": {
+    icon: Wallet,
+    iconClass: "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400",
+    amountClass: "text-green-600 dark:text-green-400",
+  },
+  "transfer-out": {
+    icon: Wallet,
+    iconClass: "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400",
+    amountClass: "text-blue-600 dark:text-blue-400",
+  },
+}
 
 export default function EmployeeDashboard() {
-  const { account, isConnected, connectWallet } = useWeb3()
+  const { account, isConnected, connectWallet, formatAddress } = useWeb3()
   const spayToken = useSPAYToken()
   const etfToken = useETFToken()
-  const { invest, withdraw, isInvesting } = useInvestmentManager()
-  const { lockSavings, withdrawSavings, isProcessing } = useSavingsManager()
+  const { invest, withdraw, isInvesting, lastResult } = useInvestmentManager()
+  const { lockSavings, withdrawSavings, isProcessing, savings, lockDays, canWithdraw } = useSavingsManager()
+  const { isPaused } = useContractStatus()
 
   const [investAmount, setInvestAmount] = useState("")
+  const [withdrawAmount, setWithdrawAmount] = useState("")
   const [saveAmount, setSaveAmount] = useState("")
+  const [selectedPayslip, setSelectedPayslip] = useState<Payslip | null>(null)
+
+  const { payslips, decimals: payslipDecimals, isLoading: isLoadingPayslips } = usePayslips()
+  const activity = useActivityHistory()
+  const [activeTab, setActiveTab] = useState("dashboard")
+
+  const formatActivityAmount = (entry: ActivityEntry) =>
+    `${entry.amount.gt(0) ? "+" : "-"}${formatTokenAmount(entry.amount.abs(), activity.decimals[entry.token])} ${entry.token}`
 
   const handleInvest = async () => {
     if (!investAmount) return
@@ -47,6 +110,21 @@ export default function EmployeeDashboard() {
     }
   }
 
+  const handleWithdraw = async () => {
+    if (!withdrawAmount) return
+    const success = await withdraw(withdrawAmount)
+    if (success) {
+      setWithdrawAmount("")
+    }
+  }
+
+  // Recommend investing up to 10% and saving up to 20% of the available SPAY balance
+  const recommendedInvestment = spayToken ? spayToken.rawBalance.div(10) : ethers.constants.Zero
+  const recommendedSavings = spayToken ? spayToken.rawBalance.div(5) : ethers.constants.Zero
+
+  const isLocked = !!savings && savings.remainingLockTime > 0
+  const unlockDate = savings?.unlockTime ? formatDate(savings.unlockTime) : null
+
   const handleSave = async () => {
     if (!saveAmount) return
     const success = await lockSavings(saveAmount)
@@ -84,11 +162,13 @@ export default function EmployeeDashboard() {
               </div>
             </motion.div>
 
+            <ContractPausedBanner actions={{ invest: "ETF investing and withdrawals", savings: "locking and withdrawing savings" }} />
+
             <motion.div variants={fadeIn("up")} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               {[
                 {
                   title: "SPAY Balance",
-                  value: spayToken?.balance || "0 SPAY",
+                  value: `${spayToken?.balance || "0"} SPAY`,
                   description: "Available balance",
                   icon: <DollarSign className="h-5 w-5 text-blue-500" />,
                   change: "+1,000 SPAY on May 1",
@@ -96,18 +176,22 @@ export default function EmployeeDashboard() {
                 },
                 {
                   title: "ETF Investment",
-                  value: etfToken?.balance || "0 ETF",
+                  value: `${etfToken?.balance || "0"} ETF`,
                   description: "Gold/BTC/ETH ETF",
                   icon: <LineChart className="h-5 w-5 text-purple-500" />,
-                  change: "+2% growth",
+                  change: `≈ ${etfToken?.usdValue || "$0.00"} USD`,
                   changeColor: "text-green-500",
                 },
                 {
                   title: "Savings",
-                  value: "200 SPAY",
-                  description: "Locked for 30 days",
+                  value: `${savings?.amount || "0"} SPAY`,
+                  description: isLocked
+                    ? `Locked for ${formatDuration(savings!.remainingLockTime)}`
+                    : canWithdraw
+                      ? "Unlocked"
+                      : "No active lock",
                   icon: <Lock className="h-5 w-5 text-pink-500" />,
-                  change: "Unlocks on May 30",
+                  change: unlockDate ? `Unlocks on ${unlockDate}` : `${lockDays}-day lock period`,
                   changeColor: "text-muted-foreground",
                 },
                 {
@@ -140,7 +224,7 @@ export default function EmployeeDashboard() {
             </motion.div>
 
             <motion.div variants={fadeIn("up", 0.1)}>
-              <Tabs defaultValue="dashboard" className="space-y-6">
+              <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
                 <TabsList className="grid w-full max-w-md grid-cols-3">
                   <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
                   <TabsTrigger value="investments">Investments</TabsTrigger>
@@ -171,47 +255,41 @@ export default function EmployeeDashboard() {
                           <div className="space-y-2">
                             <div className="text-sm font-medium">Recent Activity</div>
                             <div className="space-y-2">
-                              <div className="flex items-center justify-between p-2 rounded-lg bg-white/30 dark:bg-white/5">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-8 h-8 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center text-green-600 dark:text-green-400">
-                                    <ArrowRight className="h-4 w-4" />
-                                  </div>
-                                  <div>
-                                    <div className="text-sm font-medium">Received Payroll</div>
-                                    <div className="text-xs text-muted-foreground">May 1, 2025</div>
-                                  </div>
+                              {activity.recent.length === 0 && (
+                                <div className="p-2 text-sm text-muted-foreground">
+                                  {activity.isLoading ? "Loading activity..." : "No activity yet."}
                                 </div>
-                                <div className="font-medium text-green-600 dark:text-green-400">+1,000 SPAY</div>
-                              </div>
-                              <div className="flex items-center justify-between p-2 rounded-lg bg-white/30 dark:bg-white/5">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-8 h-8 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center text-blue-600 dark:text-blue-400">
-                                    <LineChart className="h-4 w-4" />
-                                  </div>
-                                  <div>
-                                    <div className="text-sm font-medium">Invested in ETF</div>
-                                    <div className="text-xs text-muted-foreground">May 1, 2025</div>
-                                  </div>
-                                </div>
-                                <div className="font-medium text-blue-600 dark:text-blue-400">-100 SPAY</div>
-                              </div>
-                              <div className="flex items-center justify-between p-2 rounded-lg bg-white/30 dark:bg-white/5">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-8 h-8 rounded-full bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center text-purple-600 dark:text-purple-400">
-                                    <Lock className="h-4 w-4" />
-                                  </div>
-                                  <div>
-                                    <div className="text-sm font-medium">Locked Savings</div>
-                                    <div className="text-xs text-muted-foreground">Apr 30, 2025</div>
+                              )}
+                              {activity.recent.map((entry) => {
+                                const style = activityStyles[entry.kind]
+                                return (
+                                  <div
+                                    key={entry.id}
+                                    className="flex items-center justify-between p-2 rounded-lg bg-white/30 dark:bg-white/5"
+                                  >
+                                    <div className="flex items-center gap-2">
+                                      <div className={`w-8 h-8 rounded-full flex items-center justify-center ${style.iconClass}`}>
+                                        <style.icon className="h-4 w-4" />
+                                      </div>
+                                      <div>
+                                        <div className="text-sm font-medium">{entry.description}</div>
+                                        <div className="text-xs text-muted-foreground">{formatDate(entry.timestamp)}</div>
+                                      </div>
+                                    </div>
+                                    <div className={`font-medium ${style.amountClass}`}>{formatActivityAmount(entry)}</div>
                                   </div>
-                                </div>
-                                <div className="font-medium text-purple-600 dark:text-purple-400">-200 SPAY</div>
-                              </div>
+                                )
+                              })}
                             </div>
                           </div>
 
                           <div className="pt-2">
-                            <GradientButton className="w-full" gradientFrom="#6366F1" gradientTo="#D946EF">
+                            <GradientButton
+                              className="w-full"
+                              gradientFrom="#6366F1"
+                              gradientTo="#D946EF"
+                              onClick={() => setActiveTab("history")}
+                            >
                               View All Transactions
                             </GradientButton>
                           </div>
@@ -245,23 +323,23 @@ export default function EmployeeDashboard() {
                         <div className="grid grid-cols-3 gap-4">
                           <div className="p-3 rounded-lg bg-yellow-100/30 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
                             <div className="text-xs text-yellow-600 dark:text-yellow-400">Gold</div>
-                            <div className="font-bold">50%</div>
+                            <div className="font-bold">{etfToken?.composition.gold ?? 0}%</div>
                             <div className="text-xs text-muted-foreground">
-                              {etfToken ? (Number.parseInt(etfToken.balance) * 0.5).toFixed(0) : "0"} ETF
+                              {etfToken?.holdings.gold.amount || "0"} ETF
                             </div>
                           </div>
                           <div className="p-3 rounded-lg bg-orange-100/30 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800">
                             <div className="text-xs text-orange-600 dark:text-orange-400">BTC</div>
-                            <div className="font-bold">25%</div>
+                            <div className="font-bold">{etfToken?.composition.btc ?? 0}%</div>
                             <div className="text-xs text-muted-foreground">
-                              {etfToken ? (Number.parseInt(etfToken.balance) * 0.25).toFixed(0) : "0"} ETF
+                              {etfToken?.holdings.btc.amount || "0"} ETF
                             </div>
                           </div>
                           <div className="p-3 rounded-lg bg-blue-100/30 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
                             <div className="text-xs text-blue-600 dark:text-blue-400">ETH</div>
-                            <div className="font-bold">25%</div>
+                            <div className="font-bold">{etfToken?.composition.eth ?? 0}%</div>
                             <div className="text-xs text-muted-foreground">
-                              {etfToken ? (Number.parseInt(etfToken.balance) * 0.25).toFixed(0) : "0"} ETF
+                              {etfToken?.holdings.eth.amount || "0"} ETF
                             </div>
                           </div>
                         </div>
@@ -285,15 +363,15 @@ export default function EmployeeDashboard() {
                         <div className="grid grid-cols-3 gap-4 text-sm">
                           <div className="flex flex-col items-center p-3 border rounded-lg">
                             <div className="text-yellow-500 mb-1">Gold</div>
-                            <div className="font-bold">50%</div>
+                            <div className="font-bold">{etfToken?.composition.gold ?? 0}%</div>
                           </div>
                           <div className="flex flex-col items-center p-3 border rounded-lg">
                             <div className="text-orange-500 mb-1">BTC</div>
-                            <div className="font-bold">25%</div>
+                            <div className="font-bold">{etfToken?.composition.btc ?? 0}%</div>
                           </div>
                           <div className="flex flex-col items-center p-3 border rounded-lg">
                             <div className="text-blue-500 mb-1">ETH</div>
-                            <div className="font-bold">25%</div>
+                            <div className="font-bold">{etfToken?.composition.eth ?? 0}%</div>
                           </div>
                         </div>
 
@@ -306,13 +384,24 @@ export default function EmployeeDashboard() {
                               value={investAmount}
                               onChange={(e) => setInvestAmount(e.target.value)}
                             />
-                            <Button variant="outline" onClick={() => setInvestAmount("100")}>
+                            <Button
+                              variant="outline"
+                              onClick={() =>
+                                setInvestAmount(ethers.utils.formatUnits(recommendedInvestment, spayToken?.decimals ?? 18))
+                              }
+                            >
                               Max 10%
                             </Button>
                           </div>
                           <div className="text-xs text-muted-foreground">
-                            Available: {spayToken?.balance || "0"} SPAY | Recommended: Up to 10% (100 SPAY)
+                            Available: {spayToken?.balance || "0"} SPAY | Recommended: Up to 10% (
+                            {formatTokenAmount(recommendedInvestment, spayToken?.decimals ?? 18)} SPAY)
                           </div>
+                          {lastResult?.type === "invest" && (
+                            <div className="text-xs text-green-600 dark:text-green-400">
+                              Last investment: {lastResult.spayAmount} SPAY → {lastResult.etfAmount} ETF minted
+                            </div>
+                          )}
                         </div>
                       </CardContent>
                       <CardFooter>
@@ -322,7 +411,7 @@ export default function EmployeeDashboard() {
                           gradientVia="#8B5CF6"
                           gradientTo="#D946EF"
                           onClick={handleInvest}
-                          disabled={isInvesting || !investAmount}
+                          disabled={isInvesting || !investAmount || isPaused("invest")}
                         >
                           <LineChart className="h-4 w-4" />
                           {isInvesting ? "Processing..." : "Invest in ETF"}
@@ -333,14 +422,14 @@ export default function EmployeeDashboard() {
                     <Card>
                       <CardHeader>
                         <CardTitle>Savings</CardTitle>
-                        <CardDescription>Lock SPAY for 30 days</CardDescription>
+                        <CardDescription>Lock SPAY for {lockDays} days</CardDescription>
                       </CardHeader>
                       <CardContent className="space-y-6">
                         <div className="p-4 border rounded-lg">
                           <div className="flex items-center justify-between">
                             <div className="flex items-center">
                               <Lock className="h-5 w-5 mr-2 text-muted-foreground" />
-                              <div className="text-sm font-medium">30-Day Lock Period</div>
+                              <div className="text-sm font-medium">{lockDays}-Day Lock Period</div>
                             </div>
                             <div className="text-sm text-muted-foreground">2% APY</div>
                           </div>
@@ -355,12 +444,18 @@ export default function EmployeeDashboard() {
                               value={saveAmount}
                               onChange={(e) => setSaveAmount(e.target.value)}
                             />
-                            <Button variant="outline" onClick={() => setSaveAmount("200")}>
+                            <Button
+                              variant="outline"
+                              onClick={() =>
+                                setSaveAmount(ethers.utils.formatUnits(recommendedSavings, spayToken?.decimals ?? 18))
+                              }
+                            >
                               Max 20%
                             </Button>
                           </div>
                           <div className="text-xs text-muted-foreground">
-                            Available: {spayToken?.balance || "0"} SPAY | Recommended: Up to 20% (200 SPAY)
+                            Available: {spayToken?.balance || "0"} SPAY | Recommended: Up to 20% (
+                            {formatTokenAmount(recommendedSavings, spayToken?.decimals ?? 18)} SPAY)
                           </div>
                         </div>
                       </CardContent>
@@ -370,7 +465,7 @@ export default function EmployeeDashboard() {
                           gradientFrom="#10B981"
                           gradientTo="#3B82F6"
                           onClick={handleSave}
-                          disabled={isProcessing || !saveAmount}
+                          disabled={isProcessing || !saveAmount || isPaused("savings")}
                         >
                           <PiggyBank className="h-4 w-4" />
                           {isProcessing ? "Processing..." : "Lock Savings"}
@@ -395,21 +490,23 @@ export default function EmployeeDashboard() {
                             </div>
                             <div>
                               <div className="font-bold">Gold</div>
-                              <div className="text-xs text-yellow-700 dark:text-yellow-400">50% Allocation</div>
+                              <div className="text-xs text-yellow-700 dark:text-yellow-400">
+                                {etfToken?.composition.gold ?? 0}% Allocation
+                              </div>
                             </div>
                           </div>
                           <div className="space-y-2">
                             <div className="flex justify-between text-sm">
                               <span>Amount:</span>
-                              <span className="font-medium">50 ETF</span>
+                              <span className="font-medium">{etfToken?.holdings.gold.amount || "0"} ETF</span>
                             </div>
                             <div className="flex justify-between text-sm">
                               <span>Value:</span>
-                              <span className="font-medium">$50.00</span>
+                              <span className="font-medium">{etfToken?.holdings.gold.value || "$0.00"}</span>
                             </div>
                             <div className="flex justify-between text-sm">
-                              <span>Performance:</span>
-                              <span className="font-medium text-green-600 dark:text-green-400">+1.2%</span>
+                              <span>Asset Price:</span>
+                              <span className="font-medium">{etfToken?.prices.gold || "-"}</span>
                             </div>
                           </div>
                         </div>
@@ -421,21 +518,23 @@ export default function EmployeeDashboard() {
                             </div>
                             <div>
                               <div className="font-bold">Bitcoin</div>
-                              <div className="text-xs text-orange-700 dark:text-orange-400">25% Allocation</div>
+                              <div className="text-xs text-orange-700 dark:text-orange-400">
+                                {etfToken?.composition.btc ?? 0}% Allocation
+                              </div>
                             </div>
                           </div>
                           <div className="space-y-2">
                             <div className="flex justify-between text-sm">
                               <span>Amount:</span>
-                              <span className="font-medium">25 ETF</span>
+                              <span className="font-medium">{etfToken?.holdings.btc.amount || "0"} ETF</span>
                             </div>
                             <div className="flex justify-between text-sm">
                               <span>Value:</span>
-                              <span className="font-medium">$25.00</span>
+                              <span className="font-medium">{etfToken?.holdings.btc.value || "$0.00"}</span>
                             </div>
                             <div className="flex justify-between text-sm">
-                              <span>Performance:</span>
-                              <span className="font-medium text-green-600 dark:text-green-400">+3.5%</span>
+                              <span>Asset Price:</span>
+                              <span className="font-medium">{etfToken?.prices.btc || "-"}</span>
                             </div>
                           </div>
                         </div>
@@ -447,21 +546,23 @@ export default function EmployeeDashboard() {
                             </div>
                             <div>
                               <div className="font-bold">Ethereum</div>
-                              <div className="text-xs text-blue-700 dark:text-blue-400">25% Allocation</div>
+                              <div className="text-xs text-blue-700 dark:text-blue-400">
+                                {etfToken?.composition.eth ?? 0}% Allocation
+                              </div>
                             </div>
                           </div>
                           <div className="space-y-2">
                             <div className="flex justify-between text-sm">
                               <span>Amount:</span>
-                              <span className="font-medium">25 ETF</span>
+                              <span className="font-medium">{etfToken?.holdings.eth.amount || "0"} ETF</span>
                             </div>
                             <div className="flex justify-between text-sm">
                               <span>Value:</span>
-                              <span className="font-medium">$25.00</span>
+                              <span className="font-medium">{etfToken?.holdings.eth.value || "$0.00"}</span>
                             </div>
                             <div className="flex justify-between text-sm">
-                              <span>Performance:</span>
-                              <span className="font-medium text-green-600 dark:text-green-400">+2.8%</span>
+                              <span>Asset Price:</span>
+                              <span className="font-medium">{etfToken?.prices.eth || "-"}</span>
                             </div>
                           </div>
                         </div>
@@ -474,27 +575,25 @@ export default function EmployeeDashboard() {
                             <p className="text-sm text-muted-foreground">Your ETF portfolio summary</p>
                           </div>
                           <div className="text-right">
-                            <div className="text-2xl font-bold">100 ETF</div>
-                            <div className="text-sm text-muted-foreground">≈ $100.00 USD</div>
+                            <div className="text-2xl font-bold">{etfToken?.balance || "0"} ETF</div>
+                            <div className="text-sm text-muted-foreground">≈ {etfToken?.usdValue || "$0.00"} USD</div>
                           </div>
                         </div>
 
                         <div className="space-y-4">
                           <div className="flex justify-between text-sm">
-                            <span>Initial Investment:</span>
-                            <span className="font-medium">100 SPAY ($100.00)</span>
+                            <span>ETF Price:</span>
+                            <span className="font-medium">{etfToken?.etfPrice || "-"}</span>
                           </div>
                           <div className="flex justify-between text-sm">
                             <span>Current Value:</span>
-                            <span className="font-medium">$102.50</span>
-                          </div>
-                          <div className="flex justify-between text-sm">
-                            <span>Total Return:</span>
-                            <span className="font-medium text-green-600 dark:text-green-400">+$2.50 (+2.5%)</span>
+                            <span className="font-medium">{etfToken?.usdValue || "$0.00"}</span>
                           </div>
                           <div className="flex justify-between text-sm">
                             <span>Annual Yield:</span>
-                            <span className="font-medium text-green-600 dark:text-green-400">2.0% APY</span>
+                            <span className="font-medium text-green-600 dark:text-green-400">
+                              {etfToken?.annualYield || "-"}
+                            </span>
                           </div>
                         </div>
                       </div>
@@ -504,10 +603,27 @@ export default function EmployeeDashboard() {
                         <ArrowDown className="h-4 w-4" />
                         Invest More
                       </GradientButton>
-                      <Button variant="outline" className="flex-1">
-                        Withdraw Investment
-                      </Button>
+                      <div className="flex flex-1 items-center gap-2">
+                        <Input
+                          placeholder="ETF amount"
+                          type="number"
+                          value={withdrawAmount}
+                          onChange={(e) => setWithdrawAmount(e.target.value)}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={handleWithdraw}
+                          disabled={isInvesting || !withdrawAmount || isPaused("invest")}
+                        >
+                          {isInvesting ? "Processing..." : "Withdraw Investment"}
+                        </Button>
+                      </div>
                     </CardFooter>
+                    {lastResult?.type === "withdraw" && (
+                      <div className="px-6 pb-6 text-xs text-muted-foreground">
+                        Last withdrawal: {lastResult.etfAmount} ETF burned → {lastResult.spayAmount} SPAY returned
+                      </div>
+                    )}
                   </Card>
 
                   <Card>
@@ -523,52 +639,123 @@ export default function EmployeeDashboard() {
                               <Lock className="h-6 w-6 text-green-600 dark:text-green-400" />
                             </div>
                             <div>
-                              <h3 className="text-lg font-bold">30-Day Lock</h3>
-                              <p className="text-sm text-muted-foreground">Unlocks on May 30, 2025</p>
+                              <h3 className="text-lg font-bold">{lockDays}-Day Lock</h3>
+                              <p className="text-sm text-muted-foreground">
+                                {unlockDate ? `Unlocks on ${unlockDate}` : "No savings locked"}
+                              </p>
                             </div>
                           </div>
                           <div className="text-right">
-                            <div className="text-2xl font-bold">200 SPAY</div>
-                            <div className="text-sm text-muted-foreground">≈ $200.00 USD</div>
+                            <div className="text-2xl font-bold">{savings?.amount || "0"} SPAY</div>
+                            <div className="text-sm text-muted-foreground">≈ ${savings?.amount || "0"} USD</div>
                           </div>
                         </div>
 
                         <div className="space-y-4">
                           <div className="flex justify-between text-sm">
-                            <span>Lock Date:</span>
-                            <span className="font-medium">Apr 30, 2025</span>
+                            <span>Unlock Date:</span>
+                            <span className="font-medium">{unlockDate || "-"}</span>
                           </div>
                           <div className="flex justify-between text-sm">
-                            <span>Unlock Date:</span>
-                            <span className="font-medium">May 30, 2025</span>
+                            <span>Time Remaining:</span>
+                            <span className="font-medium font-mono">
+                              {isLocked ? formatDuration(savings!.remainingLockTime) : "-"}
+                            </span>
                           </div>
                           <div className="flex justify-between text-sm">
                             <span>Interest Rate:</span>
                             <span className="font-medium text-green-600 dark:text-green-400">2.0% APY</span>
                           </div>
-                          <div className="flex justify-between text-sm">
-                            <span>Expected Interest:</span>
-                            <span className="font-medium text-green-600 dark:text-green-400">+0.33 SPAY</span>
-                          </div>
                           <div className="flex justify-between text-sm">
                             <span>Status:</span>
-                            <span className="inline-flex items-center rounded-full bg-yellow-100 dark:bg-yellow-900/30 px-2 py-1 text-xs font-medium text-yellow-700 dark:text-yellow-400">
-                              Locked
-                            </span>
+                            {isLocked ? (
+                              <span className="inline-flex items-center rounded-full bg-yellow-100 dark:bg-yellow-900/30 px-2 py-1 text-xs font-medium text-yellow-700 dark:text-yellow-400">
+                                Locked
+                              </span>
+                            ) : canWithdraw ? (
+                              <span className="inline-flex items-center rounded-full bg-green-100 dark:bg-green-900/30 px-2 py-1 text-xs font-medium text-green-700 dark:text-green-400">
+                                Unlocked
+                              </span>
+                            ) : (
+                              <span className="inline-flex items-center rounded-full bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+                                No Savings
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
                     </CardContent>
                     <CardFooter>
-                      <Button variant="outline" className="w-full" disabled>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={withdrawSavings}
+                        disabled={isProcessing || !canWithdraw || isPaused("savings")}
+                      >
                         <Unlock className="h-4 w-4 mr-2" />
-                        Unlock (Available on May 30, 2025)
+                        {isProcessing
+                          ? "Processing..."
+                          : isLocked
+                            ? `Unlock (Available on ${unlockDate})`
+                            : "Withdraw Savings"}
                       </Button>
                     </CardFooter>
                   </Card>
                 </TabsContent>
 
                 <TabsContent value="history" className="space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Payslips</CardTitle>
+                      <CardDescription>A payslip for every payroll payment you have received</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="rounded-md border">
+                        <div className="grid grid-cols-12 bg-muted/50 p-3 text-sm font-medium">
+                          <div className="col-span-3">Paid On</div>
+                          <div className="col-span-3">Employer</div>
+                          <div className="col-span-2">Gross</div>
+                          <div className="col-span-2">Net</div>
+                          <div className="col-span-2"></div>
+                        </div>
+
+                        {payslips.length === 0 && (
+                          <div className="border-t p-6 text-center text-sm text-muted-foreground">
+                            {isLoadingPayslips ? "Loading payslips..." : "You have not received any payroll yet."}
+                          </div>
+                        )}
+
+                        {payslips.map((payslip) => (
+                          <div
+                            key={`${payslip.txHash}-${payslip.logIndex}`}
+                            className="grid grid-cols-12 items-center border-t p-3 text-sm"
+                          >
+                            <div className="col-span-3">{formatDate(payslip.timestamp)}</div>
+                            <div className="col-span-3 font-mono text-muted-foreground">
+                              {formatAddress(payslip.employer)}
+                            </div>
+                            <div className="col-span-2">{formatTokenAmount(payslip.grossAmount, payslipDecimals)} SPAY</div>
+                            <div className="col-span-2 font-medium text-green-600 dark:text-green-400">
+                              {formatTokenAmount(payslip.netAmount, payslipDecimals)} SPAY
+                            </div>
+                            <div className="col-span-2 text-right">
+                              <Button variant="ghost" size="sm" className="gap-2" onClick={() => setSelectedPayslip(payslip)}>
+                                <FileText className="h-4 w-4" />
+                                View
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <PayslipModal
+                    payslip={selectedPayslip}
+                    decimals={payslipDecimals}
+                    onClose={() => setSelectedPayslip(null)}
+                  />
+
                   <Card>
                     <CardHeader className="flex flex-col md:flex-row md:items-center justify-between space-y-2 md:space-y-0">
                       <div>
@@ -580,11 +767,16 @@ export default function EmployeeDashboard() {
                           <Download className="h-4 w-4" />
                           Export
                         </Button>
-                        <select className="h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50">
-                          <option>All Transactions</option>
-                          <option>Payroll</option>
-                          <option>Investments</option>
-                          <option>Savings</option>
+                        <select
+                          className="h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                          value={activity.filter}
+                          onChange={(e) => activity.setFilter(e.target.value as ActivityFilter)}
+                        >
+                          <option value="all">All Transactions</option>
+                          <option value="payroll">Payroll</option>
+                          <option value="investments">Investments</option>
+                          <option value="savings">Savings</option>
+                          <option value="transfers">Transfers</option>
                         </select>
                       </div>
                     </CardHeader>
@@ -598,65 +790,38 @@ export default function EmployeeDashboard() {
                           <div className="col-span-2">Status</div>
                         </div>
 
-                        {[
-                          {
-                            date: "May 1, 2025",
-                            txId: "0xabc...123",
-                            description: "Received Payroll",
-                            amount: "+1,000 SPAY",
-                            status: "Completed",
-                            statusColor: "green",
-                          },
-                          {
-                            date: "May 1, 2025",
-                            txId: "0xdef...456",
-                            description: "Invested in ETF",
-                            amount: "-100 SPAY",
-                            status: "Completed",
-                            statusColor: "green",
-                          },
-                          {
-                            date: "Apr 30, 2025",
-                            txId: "0xghi...789",
-                            description: "Locked Savings",
-                            amount: "-200 SPAY",
-                            status: "Locked",
-                            statusColor: "yellow",
-                          },
-                          {
-                            date: "Apr 15, 2025",
-                            txId: "0xjkl...012",
-                            description: "Received Payroll",
-                            amount: "+1,000 SPAY",
-                            status: "Completed",
-                            statusColor: "green",
-                          },
-                          {
-                            date: "Apr 1, 2025",
-                            txId: "0xmno...345",
-                            description: "Received Payroll",
-                            amount: "+1,000 SPAY",
-                            status: "Completed",
-                            statusColor: "green",
-                          },
-                        ].map((tx, index) => (
-                          <div key={index} className="grid grid-cols-12 items-center border-t p-3 text-sm">
-                            <div className="col-span-2">{tx.date}</div>
-                            <div className="col-span-3 font-mono text-muted-foreground">{tx.txId}</div>
+                        {activity.entries.length === 0 && (
+                          <div className="border-t p-6 text-center text-sm text-muted-foreground">
+                            {activity.isLoading ? "Loading transactions..." : "No transactions found."}
+                          </div>
+                        )}
+
+                        {activity.entries.map((tx) => (
+                          <div key={tx.id} className="grid grid-cols-12 items-center border-t p-3 text-sm">
+                            <div className="col-span-2">{formatDate(tx.timestamp)}</div>
+                            <div className="col-span-3 font-mono text-muted-foreground">
+                              <a href={tx.explorerUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                {formatAddress(tx.txHash)}
+                              </a>
+                            </div>
                             <div className="col-span-3">{tx.description}</div>
                             <div className="col-span-2 font-medium">
-                              {tx.amount.startsWith("+") ? (
-                                <span className="text-green-600 dark:text-green-400">{tx.amount}</span>
+                              {tx.amount.gt(0) ? (
+                                <span className="text-green-600 dark:text-green-400">{formatActivityAmount(tx)}</span>
                               ) : (
-                                <span className="text-blue-600 dark:text-blue-400">{tx.amount}</span>
+                                <span className="text-blue-600 dark:text-blue-400">{formatActivityAmount(tx)}</span>
                               )}
                             </div>
                             <div className="col-span-2">
-                              <div
-                                className={`inline-flex items-center rounded-full bg-${tx.statusColor}-100 dark:bg-${tx.statusColor}-900/30 px-2 py-1 text-xs font-medium text-${tx.statusColor}-700 dark:text-${tx.statusColor}-400`}
-                              >
-                                {tx.status}
-                              </div>
+                              {tx.status === "Locked" ? (
+                                <div className="inline-flex items-center rounded-full bg-yellow-100 dark:bg-yellow-900/30 px-2 py-1 text-xs font-medium text-yellow-700 dark:text-yellow-400">
+                                  Locked
+                                </div>
+                              ) : (
+                                <div className="inline-flex items-center rounded-full bg-green-100 dark:bg-green-900/30 px-2 py-1 text-xs font-medium text-green-700 dark:text-green-400">
+                                  Completed
+                                </div>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -664,14 +829,24 @@ export default function EmployeeDashboard() {
                     </CardContent>
                     <CardFooter className="flex justify-between">
                       <div className="text-sm text-muted-foreground">
-                        Showing <span className="font-medium">5</span> of <span className="font-medium">20</span>{" "}
-                        transactions
+                        Showing <span className="font-medium">{activity.entries.length}</span> of{" "}
+                        <span className="font-medium">{activity.total}</span> transactions
                       </div>
                       <div className="flex items-center gap-2">
-                        <Button variant="outline" size="sm" disabled>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={activity.page === 0}
+                          onClick={() => activity.setPage(activity.page - 1)}
+                        >
                           Previous
                         </Button>
-                        <Button variant="outline" size="sm">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={activity.page >= activity.pageCount - 1}
+                          onClick={() => activity.setPage(activity.page + 1)}
+                        >
                           Next
                         </Button>
                       </div>
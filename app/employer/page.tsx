@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { motion } from "framer-motion"
+import { ethers } from "ethers"
 // Removed Navbar and Footer imports for employer dashboard
 import { GlassCard } from "@/components/ui/glass-card"
 import { GradientButton } from "@/components/ui/gradient-button"
@@ -10,6 +11,12 @@ import { Input } from "@/components/ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { AddEmployeeModal } from "@/components/modals/add-employee-modal"
+import { EmployeeProfileModal } from "@/components/modals/employee-profile-modal"
+import { InviteEmployeeModal } from "@/components/modals/invite-employee-modal"
+import { ImportEmployeesModal } from "@/components/modals/import-employees-modal"
+import { ExportPayrollModal, type ExportDataset } from "@/components/modals/export-payroll-modal"
+import { PayrollPreflightModal } from "@/components/modals/payroll-preflight-modal"
+import { PayrollCalendarModal } from "@/components/modals/payroll-calendar-modal"
 import { fadeIn, staggerContainer } from "@/lib/animations"
 import {
   Briefcase,
@@ -22,75 +29,157 @@ import {
   Upload,
   MoreHorizontal,
   ChevronDown,
+  Link2,
 } from "lucide-react"
 import { useWeb3 } from "@/providers/web3-provider"
-import { usePayrollProcessor } from "@/hooks/use-payroll-processor"
+import { usePayrollProcessor, type PayrollRunResult } from "@/hooks/use-payroll-processor"
+import { useEmployeeRoster } from "@/hooks/use-employee-roster"
+import { PAYMENT_INTERVALS, describeInterval, type EmployeeStatus } from "@/lib/employee-roster"
+import { useEmployeeInvitations } from "@/hooks/use-employee-invitations"
+import type { ClaimedInvitation } from "@/lib/employee-invitation"
+import { usePayrollHistory } from "@/hooks/use-payroll-history"
+import { usePayrollScheduler } from "@/hooks/use-payroll-scheduler"
+import { useEmployerStats } from "@/hooks/use-employer-stats"
+import { usePayrollSettings } from "@/hooks/use-payroll-settings"
+import { explorerTxUrl } from "@/lib/payroll-history"
+import { formatDate, formatTokenAmount } from "@/lib/utils"
 import { NetworkInfo } from "@/components/network-info"
+import { ContractPausedBanner } from "@/components/contract-paused-banner"
+import { useContractStatus } from "@/providers/contract-status-provider"
+import { EmployerSettingsPanel } from "@/components/employer-settings-panel"
+import { toast } from "@/components/ui/use-toast"
+import { saveEmployeeProfile } from "@/lib/employee-directory"
+
+const statusStyles: Record<EmployeeStatus, string> = {
+  Active: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400",
+  Due: "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400",
+  "Not Scheduled": "bg-muted text-muted-foreground",
+}
+
+const TRANSACTIONS_PAGE_SIZE = 10
 
 export default function EmployerDashboard() {
-  const { isConnected, connectWallet } = useWeb3()
+  const { account, isConnected, connectWallet, formatAddress } = useWeb3()
   const { processPayroll, setPayrollSchedule, isProcessing } = usePayrollProcessor()
 
-  const [employees, setEmployees] = useState([
-    { address: "0x1234...5678", name: "John Smith", amount: 1000, lastPaid: "May 1, 2025", status: "Active" },
-    { address: "0x8765...4321", name: "Emma Johnson", amount: 1500, lastPaid: "May 1, 2025", status: "Active" },
-    { address: "0xabcd...efgh", name: "Michael Brown", amount: 2000, lastPaid: "May 1, 2025", status: "Active" },
-    { address: "0xijkl...mnop", name: "Sarah Davis", amount: 1200, lastPaid: "Apr 15, 2025", status: "Active" },
-    { address: "0xqrst...uvwx", name: "David Wilson", amount: 1800, lastPaid: "Apr 15, 2025", status: "Active" },
-  ])
+  const { employees, isLoading: isLoadingEmployees, refresh: refreshEmployees } = useEmployeeRoster()
+  const payrollSettings = usePayrollSettings()
+  const { isPaused } = useContractStatus()
 
   const [isAddEmployeeModalOpen, setIsAddEmployeeModalOpen] = useState(false)
+  const [isInviteModalOpen, setIsInviteModalOpen] = useState(false)
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false)
+  const [isPreflightOpen, setIsPreflightOpen] = useState(false)
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false)
+  const [exportDataset, setExportDataset] = useState<ExportDataset | null>(null)
+  const [transactionsPage, setTransactionsPage] = useState(0)
+
+  const { entries: payrollHistory, decimals, isLoading: isLoadingHistory } = usePayrollHistory()
+  const transactionsPageCount = Math.max(Math.ceil(payrollHistory.length / TRANSACTIONS_PAGE_SIZE), 1)
+  const visibleTransactions = payrollHistory.slice(
+    transactionsPage * TRANSACTIONS_PAGE_SIZE,
+    (transactionsPage + 1) * TRANSACTIONS_PAGE_SIZE,
+  )
+  const [payrollRun, setPayrollRun] = useState<PayrollRunResult | null>(null)
+  const [editingEmployee, setEditingEmployee] = useState<string | null>(null)
 
-  const handlePayroll = async () => {
+  const { automated: isPayrollAutomated, lastRun: lastScheduledRun } = usePayrollScheduler()
+  const { pendingByEmployee: pendingInvitations, markApplied: markInvitationApplied } = useEmployeeInvitations()
+
+  const stats = useEmployerStats(employees, payrollHistory)
+  const spay = (value: ethers.BigNumber) => `${formatTokenAmount(value, stats.decimals)} SPAY`
+  const { nextPayrollTimestamp, periodChange } = stats
+  const now = Math.floor(Date.now() / 1000)
+  const daysUntilPayroll = nextPayrollTimestamp !== null ? Math.ceil((nextPayrollTimestamp - now) / 86400) : 0
+
+  // Display name from the off-chain directory, falling back to the short address
+  const employeeLabel = (address: string) =>
+    employees.find((employee) => employee.address.toLowerCase() === address.toLowerCase())?.name ||
+    formatAddress(address)
+
+  const handlePayroll = () => {
     if (!isConnected) {
       connectWallet()
       return
     }
 
-    const employeeAddresses = employees.map((emp) => emp.address)
-    const success = await processPayroll(employeeAddresses)
+    setIsPreflightOpen(true)
+  }
 
-    if (success) {
-      // Update the last paid date for all employees
-      const updatedEmployees = employees.map((emp) => ({
-        ...emp,
-        lastPaid: new Date().toLocaleDateString(),
-      }))
-      setEmployees(updatedEmployees)
+  // Pays the employees the pre-flight panel cleared
+  const handleConfirmPayroll = async (employeeAddresses: string[]) => {
+    const result = await processPayroll(employeeAddresses)
+
+    if (result) {
+      setPayrollRun(result)
+      setIsPreflightOpen(false)
+      await refreshEmployees()
+    }
+  }
+
+  // Schedules the pay the employee agreed to when claiming their invitation
+  const handleApplyInvitation = async (claim: ClaimedInvitation) => {
+    const { invitation } = claim
+    const success = await setPayrollSchedule(
+      claim.claimant,
+      ethers.utils.formatUnits(invitation.amount, decimals),
+      invitation.interval.toString(),
+    )
+    if (!success) return
+
+    try {
+      await markInvitationApplied(invitation.nonce)
+    } catch (error) {
+      console.error("Failed to mark invitation applied:", error)
     }
+    await refreshEmployees()
   }
 
-  const handleAddEmployee = async (newEmployee: { name: string; address: string; amount: string; schedule: string }) => {
+  const handleAddEmployee = async (newEmployee: {
+    name: string
+    address: string
+    amount: string
+    schedule: string
+    email: string
+    department: string
+    startDate: string
+    notes: string
+  }) => {
     if (!isConnected) {
       connectWallet()
       return
     }
 
-    // Convert schedule to seconds
-    let intervalSeconds = 1209600 // 2 weeks in seconds (bi-weekly)
-    if (newEmployee.schedule === "Monthly") {
-      intervalSeconds = 2592000 // 30 days in seconds
-    } else if (newEmployee.schedule === "Weekly") {
-      intervalSeconds = 604800 // 1 week in seconds
-    }
+    // Convert schedule to seconds, defaulting to bi-weekly
+    const intervalSeconds = PAYMENT_INTERVALS[newEmployee.schedule] ?? PAYMENT_INTERVALS["Bi-weekly"]
 
     const success = await setPayrollSchedule(newEmployee.address, newEmployee.amount, intervalSeconds.toString())
 
     if (success) {
-      // Add the new employee to the list
-      setEmployees([
-        ...employees,
-        {
+      if (account) {
+        // The chain only knows the address; keep the name and HR details in the directory
+        await saveEmployeeProfile({
+          employer: account,
+          employee: newEmployee.address,
           name: newEmployee.name,
-          address: newEmployee.address,
-          amount: Number.parseInt(newEmployee.amount),
-          lastPaid: "Not yet paid",
-          status: "Active",
-        },
-      ])
+          email: newEmployee.email,
+          department: newEmployee.department,
+          startDate: newEmployee.startDate,
+          notes: newEmployee.notes,
+        }).catch((error) => {
+          toast({
+            title: "Details Not Saved",
+            description: error.message,
+            variant: "destructive",
+          })
+        })
+      }
 
+      await refreshEmployees()
       setIsAddEmployeeModalOpen(false)
     }
+
+    return success
   }
 
   return (
@@ -109,9 +198,9 @@ export default function EmployerDashboard() {
               </div>
 
               <div className="flex items-center gap-3">
-                <Button variant="outline" className="gap-2">
+                <Button variant="outline" className="gap-2" onClick={() => setIsCalendarOpen(true)}>
                   <Calendar className="h-4 w-4" />
-                  May 2025
+                  {new Date().toLocaleDateString("en-US", { month: "long", year: "numeric" })}
                   <ChevronDown className="h-4 w-4" />
                 </Button>
 
@@ -120,7 +209,7 @@ export default function EmployerDashboard() {
                   gradientFrom="#6366F1"
                   gradientTo="#D946EF"
                   className="gap-2"
-                  disabled={isProcessing}
+                  disabled={isProcessing || isPaused("payroll")}
                 >
                   <Briefcase className="h-4 w-4" />
                   {isProcessing ? "Processing..." : "Process Payroll"}
@@ -128,39 +217,82 @@ export default function EmployerDashboard() {
               </div>
             </motion.div>
 
+            <ContractPausedBanner
+              actions={{ payroll: "payroll processing", schedule: "adding employees and changing pay schedules" }}
+            />
+
             <motion.div variants={fadeIn("up")} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               {[
                 {
                   title: "Total Payroll",
-                  value: "7,500 SPAY",
-                  description: "Current pay period",
+                  value: spay(stats.periodPayroll),
+                  description: "Scheduled per 30 days",
                   icon: <DollarSign className="h-5 w-5 text-blue-500" />,
-                  change: "+5% from last period",
-                  changeColor: "text-green-500",
+                  change:
+                    periodChange !== null
+                      ? `${periodChange >= 0 ? "+" : ""}${periodChange.toFixed(1)}% paid vs previous 30 days`
+                      : stats.paidThisPeriod.isZero()
+                        ? "Nothing paid in the last 30 days"
+                        : `${spay(stats.paidThisPeriod)} paid in the last 30 days`,
+                  changeColor:
+                    periodChange === null || periodChange === 0
+                      ? "text-muted-foreground"
+                      : periodChange > 0
+                        ? "text-green-500"
+                        : "text-red-500",
                 },
                 {
                   title: "Employees",
-                  value: employees.length.toString(),
-                  description: "Active employees",
+                  value: stats.employeeCount.toString(),
+                  description: `${stats.scheduledCount} with a payroll schedule`,
                   icon: <Users className="h-5 w-5 text-purple-500" />,
-                  change: "No change",
-                  changeColor: "text-muted-foreground",
+                  change: stats.dueCount ? `${stats.dueCount} due for payment` : "None due for payment",
+                  changeColor: stats.dueCount ? "text-yellow-600" : "text-muted-foreground",
                 },
                 {
                   title: "Next Payroll",
-                  value: "May 15, 2025",
-                  description: "In 10 days",
+                  value:
+                    nextPayrollTimestamp === null
+                      ? "Not scheduled"
+                      : nextPayrollTimestamp <= now
+                        ? "Due now"
+                        : formatDate(nextPayrollTimestamp),
+                  description:
+                    nextPayrollTimestamp === null
+                      ? "No employees scheduled"
+                      : nextPayrollTimestamp > now
+                        ? `In ${daysUntilPayroll} ${daysUntilPayroll === 1 ? "day" : "days"}`
+                        : isPayrollAutomated
+                          ? "Paid on the next scheduler run"
+                          : "Process payroll to pay due employees",
                   icon: <Calendar className="h-5 w-5 text-pink-500" />,
-                  change: "Bi-weekly schedule",
-                  changeColor: "text-muted-foreground",
+                  change: lastScheduledRun
+                    ? `Last automatic run ${lastScheduledRun.status} ${formatDate(new Date(lastScheduledRun.finishedAt))}`
+                    : isPayrollAutomated
+                      ? "Automatic payroll enabled"
+                      : "Manual payroll",
+                  changeColor:
+                    lastScheduledRun && lastScheduledRun.status !== "success" ? "text-red-500" : "text-muted-foreground",
                 },
                 {
                   title: "SPAY Balance",
-                  value: "25,000 SPAY",
+                  value: stats.balance ? spay(stats.balance) : "-",
                   description: "Available for payroll",
                   icon: <DollarSign className="h-5 w-5 text-emerald-500" />,
-                  change: "+10,000 SPAY added",
-                  changeColor: "text-green-500",
+                  change:
+                    stats.cycleTotal.isZero()
+                      ? "No payroll scheduled"
+                      : !stats.balance
+                        ? "-"
+                        : stats.balance.gte(stats.cycleTotal)
+                          ? "Covers the next pay cycle"
+                          : `${spay(stats.cycleTotal.sub(stats.balance))} short of the next pay cycle`,
+                  changeColor:
+                    stats.balance && !stats.cycleTotal.isZero()
+                      ? stats.balance.gte(stats.cycleTotal)
+                        ? "text-green-500"
+                        : "text-red-500"
+                      : "text-muted-foreground",
                 },
               ].map((stat, index) => (
                 <GlassCard key={index} className="p-6">
@@ -179,6 +311,22 @@ export default function EmployerDashboard() {
               ))}
             </motion.div>
 
+            <PayrollCalendarModal
+              isOpen={isCalendarOpen}
+              onClose={() => setIsCalendarOpen(false)}
+              employees={employees}
+              history={payrollHistory}
+              decimals={decimals}
+            />
+
+            <PayrollPreflightModal
+              isOpen={isPreflightOpen}
+              onClose={() => setIsPreflightOpen(false)}
+              employees={employees}
+              isProcessing={isProcessing}
+              onConfirm={handleConfirmPayroll}
+            />
+
             <motion.div variants={fadeIn("up", 0.05)}>
               <NetworkInfo />
             </motion.div>
@@ -192,6 +340,53 @@ export default function EmployerDashboard() {
                 </TabsList>
 
                 <TabsContent value="employees" className="space-y-6">
+                  {payrollRun && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Last Payroll Run</CardTitle>
+                        <CardDescription>
+                          {payrollRun.disbursed.length} paid, {payrollRun.skipped.length} skipped,{" "}
+                          {payrollRun.failed.length} failed
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="rounded-md border">
+                          <div className="grid grid-cols-12 bg-muted/50 p-3 text-sm font-medium">
+                            <div className="col-span-3">Employee</div>
+                            <div className="col-span-2">Gross</div>
+                            <div className="col-span-2">Tax</div>
+                            <div className="col-span-2">Fee</div>
+                            <div className="col-span-3">Net / Status</div>
+                          </div>
+
+                          {payrollRun.disbursed.map((payment) => (
+                            <div key={payment.employee} className="grid grid-cols-12 items-center border-t p-3 text-sm">
+                              <div className="col-span-3 font-mono text-muted-foreground">
+                                {employeeLabel(payment.employee)}
+                              </div>
+                              <div className="col-span-2">{payment.grossAmount} SPAY</div>
+                              <div className="col-span-2">{payment.taxAmount} SPAY</div>
+                              <div className="col-span-2">{payment.feeAmount} SPAY</div>
+                              <div className="col-span-3 font-medium text-green-600 dark:text-green-400">
+                                {payment.netAmount} SPAY
+                              </div>
+                            </div>
+                          ))}
+
+                          {[...payrollRun.skipped, ...payrollRun.failed].map((entry) => (
+                            <div key={entry.employee} className="grid grid-cols-12 items-center border-t p-3 text-sm">
+                              <div className="col-span-3 font-mono text-muted-foreground">
+                                {employeeLabel(entry.employee)}
+                              </div>
+                              <div className="col-span-6 text-muted-foreground">-</div>
+                              <div className="col-span-3 text-muted-foreground">{entry.reason}</div>
+                            </div>
+                          ))}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
+
                   <Card>
                     <CardHeader className="flex flex-col md:flex-row md:items-center justify-between space-y-2 md:space-y-0">
                       <div>
@@ -203,13 +398,21 @@ export default function EmployerDashboard() {
                           <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                           <Input placeholder="Search employees..." className="pl-8 w-[200px]" />
                         </div>
-                        <Button variant="outline" size="icon">
+                        <Button variant="outline" size="icon" onClick={() => setExportDataset("roster")}>
                           <Download className="h-4 w-4" />
                         </Button>
-                        <Button variant="outline" size="icon">
+                        <Button variant="outline" size="icon" onClick={() => setIsImportModalOpen(true)}>
                           <Upload className="h-4 w-4" />
                         </Button>
-                        <GradientButton className="gap-2" onClick={() => setIsAddEmployeeModalOpen(true)}>
+                        <Button variant="outline" className="gap-2" onClick={() => setIsInviteModalOpen(true)}>
+                          <Link2 className="h-4 w-4" />
+                          Invite
+                        </Button>
+                        <GradientButton
+                          className="gap-2"
+                          onClick={() => setIsAddEmployeeModalOpen(true)}
+                          disabled={isPaused("schedule")}
+                        >
                           <PlusCircle className="h-4 w-4" />
                           Add Employee
                         </GradientButton>
@@ -226,24 +429,61 @@ export default function EmployerDashboard() {
                           <div className="col-span-1"></div>
                         </div>
 
-                        {employees.map((employee, index) => (
-                          <div key={index} className="grid grid-cols-12 items-center border-t p-3 text-sm">
-                            <div className="col-span-3 font-medium">{employee.name}</div>
-                            <div className="col-span-3 font-mono text-muted-foreground">{employee.address}</div>
-                            <div className="col-span-2">{employee.amount}</div>
-                            <div className="col-span-2">{employee.lastPaid}</div>
-                            <div className="col-span-1">
-                              <div className="inline-flex items-center rounded-full bg-green-100 dark:bg-green-900/30 px-2 py-1 text-xs font-medium text-green-700 dark:text-green-400">
-                                {employee.status}
+                        {employees.length === 0 && (
+                          <div className="border-t p-6 text-center text-sm text-muted-foreground">
+                            {isLoadingEmployees ? "Loading employees..." : "No employees yet"}
+                          </div>
+                        )}
+
+                        {employees.map((employee) => {
+                          const agreedTerms = pendingInvitations[employee.address.toLowerCase()]
+                          return (
+                            <div key={employee.address} className="grid grid-cols-12 items-center border-t p-3 text-sm">
+                              <div className="col-span-3 font-medium">
+                                {employee.name || formatAddress(employee.address)}
+                                {employee.profile?.department && (
+                                  <div className="text-xs font-normal text-muted-foreground">{employee.profile.department}</div>
+                                )}
+                              </div>
+                              <div className="col-span-3 font-mono text-muted-foreground" title={employee.address}>
+                                {formatAddress(employee.address)}
+                              </div>
+                              <div className="col-span-2">
+                                {employee.amount}
+                                <div className="text-xs text-muted-foreground">{employee.schedule}</div>
+                                {agreedTerms && (
+                                  <Button
+                                    variant="link"
+                                    size="sm"
+                                    className="h-auto p-0 text-xs"
+                                    disabled={isProcessing || isPaused("schedule")}
+                                    onClick={() => handleApplyInvitation(agreedTerms)}
+                                  >
+                                    {`Apply agreed ${formatTokenAmount(agreedTerms.invitation.amount, decimals)} SPAY (${describeInterval(agreedTerms.invitation.interval)})`}
+                                  </Button>
+                                )}
+                              </div>
+                              <div className="col-span-2">{employee.lastPaid}</div>
+                              <div className="col-span-1">
+                                <div
+                                  className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-medium ${statusStyles[employee.status]}`}
+                                >
+                                  {employee.status}
+                                </div>
+                              </div>
+                              <div className="col-span-1 text-right">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => setEditingEmployee(employee.address)}
+                                >
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
                               </div>
                             </div>
-                            <div className="col-span-1 text-right">
-                              <Button variant="ghost" size="icon" className="h-8 w-8">
-                                <MoreHorizontal className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          </div>
-                        ))}
+                          )
+                        })}
                       </div>
                     </CardContent>
                     <CardFooter className="flex justify-between">
@@ -266,87 +506,111 @@ export default function EmployerDashboard() {
                     isOpen={isAddEmployeeModalOpen}
                     onClose={() => setIsAddEmployeeModalOpen(false)}
                     onSubmit={handleAddEmployee}
+                    defaultSchedule={payrollSettings.settings?.defaultSchedule}
                     isProcessing={isProcessing}
                   />
+
+                  <InviteEmployeeModal isOpen={isInviteModalOpen} onClose={() => setIsInviteModalOpen(false)} />
+
+                  <ImportEmployeesModal
+                    isOpen={isImportModalOpen}
+                    onClose={() => setIsImportModalOpen(false)}
+                    onImported={refreshEmployees}
+                  />
+
+                  {account && (
+                    <ExportPayrollModal
+                      isOpen={!!exportDataset}
+                      onClose={() => setExportDataset(null)}
+                      initialDataset={exportDataset ?? "roster"}
+                      employer={account}
+                      employees={employees}
+                      history={payrollHistory}
+                      decimals={decimals}
+                    />
+                  )}
+
+                  {account && (
+                    <EmployeeProfileModal
+                      isOpen={!!editingEmployee}
+                      onClose={() => setEditingEmployee(null)}
+                      onSaved={() => refreshEmployees()}
+                      employer={account}
+                      employee={editingEmployee}
+                      profile={employees.find((employee) => employee.address === editingEmployee)?.profile}
+                    />
+                  )}
                 </TabsContent>
 
                 <TabsContent value="transactions" className="space-y-6">
                   <Card>
-                    <CardHeader>
-                      <CardTitle>Recent Transactions</CardTitle>
-                      <CardDescription>View your recent payroll transactions</CardDescription>
+                    <CardHeader className="flex flex-col md:flex-row md:items-center justify-between space-y-2 md:space-y-0">
+                      <div>
+                        <CardTitle>Recent Transactions</CardTitle>
+                        <CardDescription>View your recent payroll transactions</CardDescription>
+                      </div>
+                      <Button variant="outline" className="gap-2" onClick={() => setExportDataset("payroll")}>
+                        <Download className="h-4 w-4" />
+                        Export
+                      </Button>
                     </CardHeader>
                     <CardContent>
                       <div className="rounded-md border">
                         <div className="grid grid-cols-12 bg-muted/50 p-3 text-sm font-medium">
                           <div className="col-span-2">Date</div>
                           <div className="col-span-3">Transaction ID</div>
-                          <div className="col-span-3">Description</div>
-                          <div className="col-span-2">Amount</div>
-                          <div className="col-span-2">Status</div>
+                          <div className="col-span-3">Employee</div>
+                          <div className="col-span-2">Gross</div>
+                          <div className="col-span-2">Net Paid</div>
                         </div>
 
-                        {[
-                          {
-                            date: "May 1, 2025",
-                            txId: "0xabc...123",
-                            description: "Payroll Disbursement",
-                            amount: "7,500 SPAY",
-                            status: "Completed",
-                          },
-                          {
-                            date: "Apr 15, 2025",
-                            txId: "0xdef...456",
-                            description: "Payroll Disbursement",
-                            amount: "7,500 SPAY",
-                            status: "Completed",
-                          },
-                          {
-                            date: "Apr 10, 2025",
-                            txId: "0xghi...789",
-                            description: "Add SPAY Balance",
-                            amount: "+10,000 SPAY",
-                            status: "Completed",
-                          },
-                          {
-                            date: "Apr 1, 2025",
-                            txId: "0xjkl...012",
-                            description: "Payroll Disbursement",
-                            amount: "7,500 SPAY",
-                            status: "Completed",
-                          },
-                          {
-                            date: "Mar 15, 2025",
-                            txId: "0xmno...345",
-                            description: "Payroll Disbursement",
-                            amount: "7,500 SPAY",
-                            status: "Completed",
-                          },
-                        ].map((tx, index) => (
-                          <div key={index} className="grid grid-cols-12 items-center border-t p-3 text-sm">
-                            <div className="col-span-2">{tx.date}</div>
-                            <div className="col-span-3 font-mono text-muted-foreground">{tx.txId}</div>
-                            <div className="col-span-3">{tx.description}</div>
-                            <div className="col-span-2">{tx.amount}</div>
-                            <div className="col-span-2">
-                              <div className="inline-flex items-center rounded-full bg-green-100 dark:bg-green-900/30 px-2 py-1 text-xs font-medium text-green-700 dark:text-green-400">
-                                {tx.status}
-                              </div>
+                        {isLoadingHistory && payrollHistory.length === 0 && (
+                          <div className="border-t p-6 text-center text-sm text-muted-foreground">
+                            Loading transactions...
+                          </div>
+                        )}
+
+                        {!isLoadingHistory && payrollHistory.length === 0 && (
+                          <div className="border-t p-6 text-center text-sm text-muted-foreground">
+                            No payroll has been disbursed yet.
+                          </div>
+                        )}
+
+                        {visibleTransactions.map((tx) => (
+                          <div key={`${tx.txHash}-${tx.logIndex}`} className="grid grid-cols-12 items-center border-t p-3 text-sm">
+                            <div className="col-span-2">{formatDate(tx.timestamp)}</div>
+                            <div className="col-span-3 font-mono text-muted-foreground">
+                              <a href={explorerTxUrl(tx.txHash)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                {formatAddress(tx.txHash)}
+                              </a>
                             </div>
+                            <div className="col-span-3">{employeeLabel(tx.employee)}</div>
+                            <div className="col-span-2">{formatTokenAmount(tx.grossAmount, decimals)} SPAY</div>
+                            <div className="col-span-2">{formatTokenAmount(tx.netAmount, decimals)} SPAY</div>
                           </div>
                         ))}
                       </div>
                     </CardContent>
                     <CardFooter className="flex justify-between">
                       <div className="text-sm text-muted-foreground">
-                        Showing <span className="font-medium">5</span> of <span className="font-medium">20</span>{" "}
-                        transactions
+                        Showing <span className="font-medium">{visibleTransactions.length}</span> of{" "}
+                        <span className="font-medium">{payrollHistory.length}</span> transactions
                       </div>
                       <div className="flex items-center gap-2">
-                        <Button variant="outline" size="sm" disabled>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={transactionsPage === 0}
+                          onClick={() => setTransactionsPage(transactionsPage - 1)}
+                        >
                           Previous
                         </Button>
-                        <Button variant="outline" size="sm">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={transactionsPage >= transactionsPageCount - 1}
+                          onClick={() => setTransactionsPage(transactionsPage + 1)}
+                        >
                           Next
                         </Button>
                       </div>
@@ -355,67 +619,7 @@ export default function EmployerDashboard() {
                 </TabsContent>
 
                 <TabsContent value="settings" className="space-y-6">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>Payroll Settings</CardTitle>
-                      <CardDescription>Configure your payroll settings</CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-6">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Default Payment Schedule</label>
-                        <select className="flex h-9 w-full max-w-sm rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50">
-                          <option>Bi-weekly</option>
-                          <option>Monthly</option>
-                          <option>Weekly</option>
-                        </select>
-                      </div>
-
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Tax Withholding Rate</label>
-                        <div className="flex items-center gap-2">
-                          <Input type="number" placeholder="10" className="max-w-sm" />
-                          <span>%</span>
-                        </div>
-                      </div>
-
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Default Currency</label>
-                        <select className="flex h-9 w-full max-w-sm rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50">
-                          <option>SPAY (StablePay)</option>
-                          <option>USD (US Dollar)</option>
-                        </select>
-                      </div>
-                    </CardContent>
-                    <CardFooter>
-                      <Button>Save Settings</Button>
-                    </CardFooter>
-                  </Card>
-
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>Company Information</CardTitle>
-                      <CardDescription>Update your company details</CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-6">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Company Name</label>
-                        <Input placeholder="Enter company name" className="max-w-sm" />
-                      </div>
-
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Company Address</label>
-                        <Input placeholder="Enter company address" className="max-w-sm" />
-                      </div>
-
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Tax ID</label>
-                        <Input placeholder="Enter tax ID" className="max-w-sm" />
-                      </div>
-                    </CardContent>
-                    <CardFooter>
-                      <Button>Update Information</Button>
-                    </CardFooter>
-                  </Card>
+                  <EmployerSettingsPanel {...payrollSettings} />
                 </TabsContent>
               </Tabs>
             </motion.div>
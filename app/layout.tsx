@@ -4,6 +4,7 @@ import { Inter } from 'next/font/google'
 import "./globals.css"
 import ClientLayout from "./ClientLayout"
 import { Web3Provider } from "@/providers/web3-provider"
+import { ContractStatusProvider } from "@/providers/contract-status-provider"
 import { Toaster } from "@/components/ui/toaster"
 
 const inter = Inter({ subsets: ["latin"] })
@@ -23,8 +24,10 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <Web3Provider>
-          <ClientLayout>{children}</ClientLayout>
-          <Toaster />
+          <ContractStatusProvider>
+            <ClientLayout>{children}</ClientLayout>
+            <Toaster />
+          </ContractStatusProvider>
         </Web3Provider>
       </body>
     </html>
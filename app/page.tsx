@@ -1,6 +1,7 @@
 "use client"
 
 import { useState } from "react"
+import Link from "next/link"
 import { motion } from "framer-motion"
 import { Navbar } from "@/components/navbar"
 import { Footer } from "@/components/footer"
@@ -81,6 +82,13 @@ export default function Home() {
                   <Button size="xl" variant="outline">
                     Learn More
                   </Button>
+
+                  <Button size="lg" variant="outline" asChild>
+                    <Link href="/reserves">
+                      <Shield className="mr-2 h-5 w-5" />
+                      View Reserves
+                    </Link>
+                  </Button>
                 </motion.div>
 
               </motion.div>
@@ -0,0 +1,279 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { motion } from "framer-motion"
+import { GlassCard } from "@/components/ui/glass-card"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "@/components/ui/use-toast"
+import { BackingRatioChart } from "@/components/backing-ratio-chart"
+import { fadeIn, staggerContainer } from "@/lib/animations"
+import { Coins, Download, Gauge, Landmark, Lock, RefreshCw } from "lucide-react"
+import { DEFAULT_CHAIN } from "@/config/blockchain"
+import { collateralHealth, type CollateralHealth } from "@/lib/collateral"
+import {
+  fetchBackingHistory,
+  fetchReservesSnapshot,
+  fetchSignedReserves,
+  recoverReservesSigner,
+  type BackingRatioPoint,
+  type ReserveAsset,
+  type ReservesSnapshot,
+} from "@/lib/reserves"
+import { downloadFile } from "@/lib/payroll-export"
+import { formatBps, formatTokenAmount, formatUSDAmount } from "@/lib/utils"
+
+const healthStyles: Record<CollateralHealth, string> = {
+  healthy: "text-green-500",
+  warning: "text-yellow-600",
+  critical: "text-red-500",
+  "no-supply": "text-muted-foreground",
+}
+
+const healthLabels: Record<CollateralHealth, string> = {
+  healthy: "At or above target",
+  warning: "Below target, above minimum",
+  critical: "Below minimum",
+  "no-supply": "No SPAY outstanding",
+}
+
+const assetLabels: Record<ReserveAsset, string> = {
+  gold: "Gold",
+  btc: "Bitcoin",
+  eth: "Ethereum",
+}
+
+const contractLabels: Record<keyof ReservesSnapshot["contracts"], string> = {
+  spayToken: "SPAY Token",
+  etfToken: "StablePay ETF",
+  collateralManager: "Collateral Manager",
+}
+
+const explorerUrl = (path: string) => `${DEFAULT_CHAIN.blockExplorers.default.url}/${path}`
+
+// Public proof of reserves: no wallet needed, everything is read through the public RPC
+export default function ReservesPage() {
+  const [snapshot, setSnapshot] = useState<ReservesSnapshot | null>(null)
+  const [history, setHistory] = useState<BackingRatioPoint[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const nextSnapshot = await fetchReservesSnapshot()
+      setSnapshot(nextSnapshot)
+      setHistory(await fetchBackingHistory(nextSnapshot))
+    } catch (error) {
+      console.error("Failed to load reserves:", error)
+      toast({
+        title: "Reserves Unavailable",
+        description: "Could not read the reserves from the chain. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleDownload = async () => {
+    setIsDownloading(true)
+    try {
+      const signed = await fetchSignedReserves()
+
+      // Check the signature before handing the file out, the same way an auditor would
+      if (recoverReservesSigner(signed).toLowerCase() !== signed.signer.toLowerCase()) {
+        throw new Error("Snapshot signature does not match its signer")
+      }
+
+      downloadFile(
+        `spay-reserves-${signed.snapshot.blockNumber}.json`,
+        JSON.stringify(signed, null, 2),
+        "application/json",
+      )
+      toast({
+        title: "Snapshot Downloaded",
+        description: `Signed reserves at block ${signed.snapshot.blockNumber.toLocaleString()}.`,
+      })
+    } catch (error: any) {
+      console.error("Downloading reserves snapshot failed:", error)
+      toast({
+        title: "Download Failed",
+        description: error?.message || "There was an error downloading the signed snapshot.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const ratioBps = snapshot?.collateralRatioBps ? Number(snapshot.collateralRatioBps) : null
+  const health = snapshot
+    ? collateralHealth(ratioBps, snapshot.minCollateralRatioBps, snapshot.targetCollateralRatioBps)
+    : null
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <main className="flex-grow py-8">
+        <div className="container mx-auto px-4">
+          <motion.div variants={staggerContainer} initial="hidden" animate="show" className="space-y-8">
+            <motion.div
+              variants={fadeIn("down")}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-4"
+            >
+              <div>
+                <h1 className="text-3xl font-bold">Proof of Reserves</h1>
+                <p className="text-muted-foreground">
+                  {snapshot
+                    ? `SPAY backing read on-chain at block ${snapshot.blockNumber.toLocaleString()}`
+                    : "SPAY backing read directly from the chain"}
+                </p>
+              </div>
+
+              <Button variant="outline" className="gap-2" onClick={refresh} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+            </motion.div>
+
+            <motion.div variants={fadeIn("up")} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {[
+                {
+                  title: "SPAY Supply",
+                  value: snapshot ? `${formatTokenAmount(snapshot.spayTotalSupply, snapshot.spayDecimals)} SPAY` : "-",
+                  description: "Total SPAY in circulation",
+                  icon: <Landmark className="h-5 w-5 text-pink-500" />,
+                },
+                {
+                  title: "Collateral Locked",
+                  value: snapshot ? `${formatTokenAmount(snapshot.totalCollateralLocked, snapshot.etfDecimals, 4)} ETF` : "-",
+                  description: snapshot ? `${formatUSDAmount(snapshot.collateralValueUsd)} at the current ETF price` : "-",
+                  icon: <Lock className="h-5 w-5 text-blue-500" />,
+                },
+                {
+                  title: "Backing Ratio",
+                  value: snapshot ? (ratioBps === null ? "∞" : formatBps(ratioBps)) : "-",
+                  description: snapshot
+                    ? `Minimum ${formatBps(snapshot.minCollateralRatioBps)} · Target ${formatBps(snapshot.targetCollateralRatioBps)}`
+                    : "-",
+                  icon: <Gauge className="h-5 w-5 text-purple-500" />,
+                  change: health ? healthLabels[health] : undefined,
+                  changeColor: health ? healthStyles[health] : undefined,
+                },
+                {
+                  title: "ETF Price",
+                  value: snapshot ? formatUSDAmount(snapshot.etfPriceUsd) : "-",
+                  description: "Weighted price of the ETF basket",
+                  icon: <Coins className="h-5 w-5 text-emerald-500" />,
+                },
+              ].map((stat) => (
+                <GlassCard key={stat.title} className="p-6">
+                  <div className="flex justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">{stat.title}</p>
+                      <p className="text-2xl font-bold mt-2">{stat.value}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{stat.description}</p>
+                      {stat.change && <p className={`text-xs ${stat.changeColor} mt-2`}>{stat.change}</p>}
+                    </div>
+                    <div className="h-12 w-12 rounded-full bg-background flex items-center justify-center">
+                      {stat.icon}
+                    </div>
+                  </div>
+                </GlassCard>
+              ))}
+            </motion.div>
+
+            <motion.div variants={fadeIn("up", 0.05)} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Backing Ratio History</CardTitle>
+                  <CardDescription>
+                    Rebuilt from collateral, mint/burn and ETF price events; the dashed line marks the minimum ratio
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BackingRatioChart history={history} minRatioBps={snapshot?.minCollateralRatioBps ?? 0} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>ETF Composition</CardTitle>
+                  <CardDescription>Component prices and weights from the ETF contract</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="rounded-md border">
+                    <div className="grid grid-cols-3 bg-muted/50 p-3 text-sm font-medium">
+                      <div>Asset</div>
+                      <div className="text-right">Weight</div>
+                      <div className="text-right">Price</div>
+                    </div>
+                    {(snapshot?.components ?? []).map((component) => (
+                      <div key={component.asset} className="grid grid-cols-3 border-t p-3 text-sm">
+                        <div>{assetLabels[component.asset]}</div>
+                        <div className="text-right">{component.weightPercent}%</div>
+                        <div className="text-right">{formatUSDAmount(component.priceUsd)}</div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+
+            <motion.div variants={fadeIn("up", 0.1)}>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Verify Independently</CardTitle>
+                  <CardDescription>
+                    The signed snapshot records every figure above at a single block. Check the signature with{" "}
+                    <code>ethers.utils.verifyMessage(JSON.stringify(snapshot), signature)</code>, then call the same
+                    contract functions at that block to confirm the numbers.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {snapshot &&
+                    (Object.keys(contractLabels) as (keyof ReservesSnapshot["contracts"])[]).map((contract) => (
+                      <div key={contract} className="flex flex-col md:flex-row md:justify-between gap-1">
+                        <span className="text-muted-foreground">{contractLabels[contract]}</span>
+                        <a
+                          href={explorerUrl(`address/${snapshot.contracts[contract]}`)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono hover:underline break-all"
+                        >
+                          {snapshot.contracts[contract]}
+                        </a>
+                      </div>
+                    ))}
+                  {snapshot && (
+                    <div className="flex flex-col md:flex-row md:justify-between gap-1">
+                      <span className="text-muted-foreground">Block</span>
+                      <a
+                        href={explorerUrl(`block/${snapshot.blockNumber}`)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono hover:underline break-all"
+                      >
+                        {snapshot.blockNumber} · {snapshot.blockHash}
+                      </a>
+                    </div>
+                  )}
+                </CardContent>
+                <CardFooter>
+                  <Button className="gap-2" onClick={handleDownload} disabled={isDownloading}>
+                    <Download className="h-4 w-4" />
+                    {isDownloading ? "Preparing..." : "Download Signed Snapshot"}
+                  </Button>
+                </CardFooter>
+              </Card>
+            </motion.div>
+          </motion.div>
+        </div>
+      </main>
+    </div>
+  )
+}
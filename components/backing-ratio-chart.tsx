@@ -0,0 +1,71 @@
+"use client"
+
+import { useMemo } from "react"
+import { Line, LineChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { BackingRatioPoint } from "@/lib/reserves"
+import { formatBps, formatDate } from "@/lib/utils"
+
+interface BackingRatioChartProps {
+  history: BackingRatioPoint[]
+  minRatioBps: number
+}
+
+const chartConfig = {
+  ratio: {
+    label: "Backing ratio (%)",
+    color: "#6366F1",
+  },
+} satisfies ChartConfig
+
+export function BackingRatioChart({ history, minRatioBps }: BackingRatioChartProps) {
+  // Points without outstanding SPAY have no ratio and are left as gaps
+  const points = useMemo(
+    () =>
+      history.map((point) => ({
+        timestamp: point.timestamp,
+        ratio: point.ratioBps === null ? null : point.ratioBps / 100,
+      })),
+    [history],
+  )
+
+  if (!points.some((point) => point.ratio !== null)) {
+    return (
+      <div className="flex h-[260px] items-center justify-center text-sm text-muted-foreground">
+        No backing history yet.
+      </div>
+    )
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+      <LineChart data={points} margin={{ left: 12, right: 12, top: 16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={32}
+          tickFormatter={(value: number) => formatDate(value)}
+        />
+        <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(value: number) => `${value}%`} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload?.[0]?.payload?.timestamp ?? 0)} />
+          }
+        />
+        <ReferenceLine
+          y={minRatioBps / 100}
+          stroke="#EF4444"
+          strokeDasharray="4 4"
+          label={{ value: `Minimum ${formatBps(minRatioBps)}`, position: "insideBottomLeft", fontSize: 10 }}
+        />
+        <Line dataKey="ratio" type="stepAfter" stroke="var(--color-ratio)" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,88 @@
+"use client"
+
+import { useMemo } from "react"
+import { ethers } from "ethers"
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { CollateralHistoryEntry } from "@/lib/collateral"
+import { formatBps, formatDate } from "@/lib/utils"
+
+interface CollateralHistoryChartProps {
+  history: CollateralHistoryEntry[]
+  currentLocked: ethers.BigNumber
+  decimals: number
+}
+
+const chartConfig = {
+  locked: {
+    label: "ETF locked",
+    color: "#6366F1",
+  },
+} satisfies ChartConfig
+
+export function CollateralHistoryChart({ history, currentLocked, decimals }: CollateralHistoryChartProps) {
+  const points = useMemo(() => {
+    const toAmount = (value: ethers.BigNumber) => Number(ethers.utils.formatUnits(value, decimals))
+    const movements = history.filter((entry) => entry.kind !== "ratio")
+    if (movements.length === 0) return []
+
+    // Start from the balance before the first indexed movement and end at the live total
+    const first = movements[0]
+    const opening = first.kind === "lock" ? first.totalLocked.sub(first.amount!) : first.totalLocked.add(first.amount!)
+    return [
+      { timestamp: first.timestamp, locked: toAmount(opening) },
+      ...movements.map((entry) => ({ timestamp: entry.timestamp, locked: toAmount(entry.totalLocked) })),
+      { timestamp: Math.floor(Date.now() / 1000), locked: toAmount(currentLocked) },
+    ]
+  }, [history, currentLocked, decimals])
+
+  const ratioUpdates = history.filter((entry) => entry.kind === "ratio")
+
+  if (points.length === 0) {
+    return (
+      <div className="flex h-[260px] items-center justify-center text-sm text-muted-foreground">
+        No collateral has been locked or released yet.
+      </div>
+    )
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+      <AreaChart data={points} margin={{ left: 12, right: 12, top: 16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={32}
+          tickFormatter={(value: number) => formatDate(value)}
+        />
+        <YAxis tickLine={false} axisLine={false} width={64} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload?.[0]?.payload?.timestamp ?? 0)} />
+          }
+        />
+        {ratioUpdates.map((entry) => (
+          <ReferenceLine
+            key={`${entry.txHash}-${entry.logIndex}`}
+            x={entry.timestamp}
+            strokeDasharray="4 4"
+            label={{ value: `Target ${formatBps(entry.newRatioBps!)}`, position: "insideTopLeft", fontSize: 10 }}
+          />
+        ))}
+        <Area
+          dataKey="locked"
+          type="stepAfter"
+          fill="var(--color-locked)"
+          fillOpacity={0.3}
+          stroke="var(--color-locked)"
+        />
+      </AreaChart>
+    </ChartContainer>
+  )
+}
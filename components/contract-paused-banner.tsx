@@ -0,0 +1,39 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { PauseCircle } from "lucide-react"
+import { useContractStatus } from "@/providers/contract-status-provider"
+import { PROTOCOL_CONTRACT_LABELS } from "@/lib/protocol-roles"
+import type { PausableAction } from "@/lib/contract-status"
+
+interface ContractPausedBannerProps {
+  // Actions shown on the page, each with a lowercase phrase describing it, e.g. "payroll processing"
+  actions: Partial<Record<PausableAction, string>>
+}
+
+export function ContractPausedBanner({ actions }: ContractPausedBannerProps) {
+  const { pausedFor } = useContractStatus()
+
+  const blocked = (Object.keys(actions) as PausableAction[])
+    .map((action) => ({ action, label: actions[action]!, contracts: pausedFor(action) }))
+    .filter(({ contracts }) => contracts.length > 0)
+
+  if (blocked.length === 0) return null
+
+  const pausedContracts = Array.from(new Set(blocked.flatMap(({ contracts }) => contracts)))
+  const unavailable = blocked.map(({ label }) => label).join(", ")
+
+  return (
+    <Alert variant="destructive">
+      <PauseCircle className="h-4 w-4" />
+      <AlertTitle>
+        {pausedContracts.map((contract) => PROTOCOL_CONTRACT_LABELS[contract]).join(", ")}{" "}
+        {pausedContracts.length === 1 ? "is" : "are"} paused
+      </AlertTitle>
+      <AlertDescription>
+        {unavailable.charAt(0).toUpperCase() + unavailable.slice(1)} {blocked.length === 1 ? "is" : "are"} unavailable
+        until a protocol admin unpauses {pausedContracts.length === 1 ? "it" : "them"}.
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { PAYMENT_INTERVALS } from "@/lib/employee-roster"
+import { MAX_FEE_RATE_BPS, MAX_TAX_RATE_BPS, type usePayrollSettings } from "@/hooks/use-payroll-settings"
+import { DEFAULT_CURRENCIES, type EmployerSettings } from "@/lib/employer-settings"
+
+type EmployerSettingsPanelProps = ReturnType<typeof usePayrollSettings>
+
+const currencyLabels: Record<EmployerSettings["defaultCurrency"], string> = {
+  SPAY: "SPAY (StablePay)",
+  USD: "USD (US Dollar)",
+}
+
+const selectClassName =
+  "flex h-9 w-full max-w-sm rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+
+// Rates are edited as percentages and stored on chain in basis points
+const toPercent = (bps: number) => String(bps / 100)
+const toBps = (percent: string) => Math.round(Number(percent) * 100)
+
+export function EmployerSettingsPanel({ rates, isAdmin, settings, isSaving, saveRates, saveSettings }: EmployerSettingsPanelProps) {
+  const [form, setForm] = useState<EmployerSettings | null>(settings)
+  const [taxRate, setTaxRate] = useState("")
+  const [feeRate, setFeeRate] = useState("")
+
+  useEffect(() => {
+    setForm(settings)
+  }, [settings])
+
+  useEffect(() => {
+    if (!rates) return
+    setTaxRate(toPercent(rates.taxRateBps))
+    setFeeRate(toPercent(rates.feeRateBps))
+  }, [rates])
+
+  const ratesChanged =
+    !!rates && (toBps(taxRate) !== rates.taxRateBps || toBps(feeRate) !== rates.feeRateBps)
+
+  const handleSavePayrollSettings = async () => {
+    if (!form) return
+    if (isAdmin && ratesChanged) {
+      const applied = await saveRates({ taxRateBps: toBps(taxRate), feeRateBps: toBps(feeRate) })
+      if (!applied) return
+    }
+    await saveSettings(form)
+  }
+
+  const handleSaveCompanyInfo = async () => {
+    if (!form) return
+    await saveSettings(form)
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Payroll Settings</CardTitle>
+          <CardDescription>Configure your payroll settings</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Default Payment Schedule</label>
+            <select
+              className={selectClassName}
+              value={form?.defaultSchedule ?? "Bi-weekly"}
+              onChange={(e) => form && setForm({ ...form, defaultSchedule: e.target.value })}
+              disabled={!form}
+            >
+              {Object.keys(PAYMENT_INTERVALS).map((schedule) => (
+                <option key={schedule}>{schedule}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Tax Withholding Rate</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={MAX_TAX_RATE_BPS / 100}
+                step={0.01}
+                placeholder="10"
+                className="max-w-sm"
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+                readOnly={!isAdmin}
+                disabled={!rates}
+              />
+              <span>%</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Platform Fee Rate</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={MAX_FEE_RATE_BPS / 100}
+                step={0.01}
+                placeholder="0.5"
+                className="max-w-sm"
+                value={feeRate}
+                onChange={(e) => setFeeRate(e.target.value)}
+                readOnly={!isAdmin}
+                disabled={!rates}
+              />
+              <span>%</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {isAdmin
+                ? "Tax and fee rates apply to every employer's payroll. Changing them sends a transaction."
+                : "Tax and fee rates are set by the PayrollProcessor admin and apply to all payroll."}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Default Currency</label>
+            <select
+              className={selectClassName}
+              value={form?.defaultCurrency ?? "SPAY"}
+              onChange={(e) =>
+                form && setForm({ ...form, defaultCurrency: e.target.value as EmployerSettings["defaultCurrency"] })
+              }
+              disabled={!form}
+            >
+              {DEFAULT_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currencyLabels[currency]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button onClick={handleSavePayrollSettings} disabled={!form || isSaving}>
+            {isSaving ? "Saving..." : "Save Settings"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Company Information</CardTitle>
+          <CardDescription>Update your company details</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Company Name</label>
+            <Input
+              placeholder="Enter company name"
+              className="max-w-sm"
+              value={form?.companyName ?? ""}
+              onChange={(e) => form && setForm({ ...form, companyName: e.target.value })}
+              disabled={!form}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Company Address</label>
+            <Input
+              placeholder="Enter company address"
+              className="max-w-sm"
+              value={form?.companyAddress ?? ""}
+              onChange={(e) => form && setForm({ ...form, companyAddress: e.target.value })}
+              disabled={!form}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Tax ID</label>
+            <Input
+              placeholder="Enter tax ID"
+              className="max-w-sm"
+              value={form?.taxId ?? ""}
+              onChange={(e) => form && setForm({ ...form, taxId: e.target.value })}
+              disabled={!form}
+            />
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button onClick={handleSaveCompanyInfo} disabled={!form || isSaving}>
+            {isSaving ? "Saving..." : "Update Information"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </>
+  )
+}
@@ -1,12 +1,14 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { GradientButton } from "@/components/ui/gradient-button"
 import { PlusCircle } from "lucide-react"
 import { handleEmployeeRegistration } from "@/app/actions/employee-registration"
 import { useToast } from "@/components/ui/use-toast"
+import { useWeb3 } from "@/providers/web3-provider"
 
 interface AddEmployeeModalProps {
   isOpen: boolean
@@ -16,56 +18,76 @@ interface AddEmployeeModalProps {
     address: string
     amount: string
     schedule: string
-  }) => void
+    email: string
+    department: string
+    startDate: string
+    notes: string
+  }) => Promise<boolean | undefined>
   isProcessing: boolean
+  // The employer's saved default schedule; falls back to bi-weekly
+  defaultSchedule?: string
 }
 
-export function AddEmployeeModal({ isOpen, onClose, onSubmit, isProcessing }: AddEmployeeModalProps) {
+const emptyForm = {
+  name: "",
+  address: "",
+  amount: "",
+  schedule: "Bi-weekly",
+  email: "",
+  department: "",
+  startDate: "",
+  notes: "",
+}
+
+export function AddEmployeeModal({ isOpen, onClose, onSubmit, isProcessing, defaultSchedule }: AddEmployeeModalProps) {
   const { toast } = useToast()
-  const [formData, setFormData] = useState({
-    name: "",
-    address: "",
-    amount: "",
-    schedule: "Bi-weekly",
-  })
+  const { account, formatAddress } = useWeb3()
+  const blankForm = { ...emptyForm, schedule: defaultSchedule || emptyForm.schedule }
+  const [formData, setFormData] = useState(blankForm)
+  const [isChecking, setIsChecking] = useState(false)
+
+  // Apply the saved default on open unless the form already has input
+  useEffect(() => {
+    if (!isOpen) return
+    setFormData((form) => (form.name || form.address || form.amount ? form : { ...form, schedule: blankForm.schedule }))
+  }, [isOpen, blankForm.schedule])
 
   const handleSubmit = async () => {
-    console.log("address for here:", formData.address)
     if (!formData.name || !formData.address || !formData.amount) return
-    
-    try {
-      const result = await handleEmployeeRegistration(
-        formData.address, 
-        formData
-      )
-      console.log("Registration result:", result)
+    if (!account) {
+      toast({
+        variant: "destructive",
+        title: "Not Connected",
+        description: "Please connect your wallet first.",
+      })
+      return
+    }
+
+    setIsChecking(true)
+    const check = await handleEmployeeRegistration(account, formData)
+    setIsChecking(false)
 
-      if (result.success) {
-        onSubmit(formData)
-        setFormData({
-          name: "",
-          address: "",
-          amount: "",
-          schedule: "Bi-weekly",
-        })
-        toast({
-          title: "Success",
-          description: "Employee registered successfully",
-        })
-      } else {
-        toast({
-          variant: "destructive",
-          title: "Error",
-          description: result.error || "Failed to register employee",
-        })
-      }
-    } catch (error: any) {
+    if (!check.success) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Failed to register employee",
+        description: check.error || "Failed to add employee",
+      })
+      return
+    }
+
+    const added = await onSubmit({ ...formData, address: formData.address.trim() })
+    if (!added) return
+
+    if (check.needsRegistration) {
+      // The schedule is set, but the employee still has to link their wallet from their side
+      toast({
+        title: "Waiting on Employee",
+        description: `Ask ${formatAddress(formData.address)} to connect their wallet and register as an employee with your address ${account}.`,
       })
     }
+
+    setFormData(blankForm)
   }
 
   return (
@@ -113,15 +135,50 @@ export function AddEmployeeModal({ isOpen, onClose, onSubmit, isProcessing }: Ad
               <option>Weekly</option>
             </select>
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Email</label>
+              <Input
+                type="email"
+                placeholder="name@company.com"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Department</label>
+              <Input
+                placeholder="Engineering"
+                value={formData.department}
+                onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Start Date</label>
+            <Input
+              type="date"
+              value={formData.startDate}
+              onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Notes</label>
+            <Textarea
+              placeholder="Optional notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
         </div>
         <DialogFooter>
           <GradientButton
             className="gap-2"
             onClick={handleSubmit}
-            disabled={isProcessing || !formData.name || !formData.address || !formData.amount}
+            disabled={isProcessing || isChecking || !formData.name || !formData.address || !formData.amount}
           >
             <PlusCircle className="h-4 w-4" />
-            {isProcessing ? "Processing..." : "Add Employee"}
+            {isChecking ? "Checking..." : isProcessing ? "Processing..." : "Add Employee"}
           </GradientButton>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,132 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { GradientButton } from "@/components/ui/gradient-button"
+import { Save } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { saveEmployeeProfile, type EmployeeProfile } from "@/lib/employee-directory"
+
+interface EmployeeProfileModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: (profile: EmployeeProfile) => void
+  employer: string
+  employee: string | null
+  profile?: EmployeeProfile
+}
+
+const emptyForm = {
+  name: "",
+  email: "",
+  department: "",
+  startDate: "",
+  notes: "",
+}
+
+export function EmployeeProfileModal({ isOpen, onClose, onSaved, employer, employee, profile }: EmployeeProfileModalProps) {
+  const { toast } = useToast()
+  const [formData, setFormData] = useState(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({ ...emptyForm, ...profile })
+    }
+  }, [isOpen, profile])
+
+  const handleSubmit = async () => {
+    if (!employee || !formData.name) return
+
+    setIsSaving(true)
+    try {
+      const saved = await saveEmployeeProfile({
+        employer,
+        employee,
+        name: formData.name,
+        email: formData.email,
+        department: formData.department,
+        startDate: formData.startDate,
+        notes: formData.notes,
+      })
+      toast({
+        title: "Saved",
+        description: `Updated details for ${saved.name}`,
+      })
+      onSaved(saved)
+      onClose()
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save employee details",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Employee Details</DialogTitle>
+          <DialogDescription className="font-mono break-all">{employee}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Employee Name</label>
+            <Input
+              placeholder="Enter employee name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Email</label>
+              <Input
+                type="email"
+                placeholder="name@company.com"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Department</label>
+              <Input
+                placeholder="Engineering"
+                value={formData.department}
+                onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Start Date</label>
+            <Input
+              type="date"
+              value={formData.startDate}
+              onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Notes</label>
+            <Textarea
+              placeholder="Optional notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <GradientButton className="gap-2" onClick={handleSubmit} disabled={isSaving || !formData.name}>
+            <Save className="h-4 w-4" />
+            {isSaving ? "Saving..." : "Save Details"}
+          </GradientButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
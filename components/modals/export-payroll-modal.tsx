@@ -0,0 +1,148 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { GradientButton } from "@/components/ui/gradient-button"
+import { Download } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import type { RosterEmployee } from "@/lib/employee-roster"
+import type { PayrollHistoryEntry } from "@/lib/payroll-history"
+import { exportPayrollHistory, exportRoster, type ExportFormat } from "@/lib/payroll-export"
+
+export type ExportDataset = "roster" | "payroll"
+
+interface ExportPayrollModalProps {
+  isOpen: boolean
+  onClose: () => void
+  initialDataset: ExportDataset
+  employer: string
+  employees: RosterEmployee[]
+  history: PayrollHistoryEntry[]
+  decimals: number
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+
+// yyyy-mm-dd in local time, as date inputs expect
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+
+export function ExportPayrollModal({
+  isOpen,
+  onClose,
+  initialDataset,
+  employer,
+  employees,
+  history,
+  decimals,
+}: ExportPayrollModalProps) {
+  const { toast } = useToast()
+  const [dataset, setDataset] = useState<ExportDataset>(initialDataset)
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  // Default to the current month, for month-end reconciliation
+  const [from, setFrom] = useState(() => {
+    const now = new Date()
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1))
+  })
+  const [to, setTo] = useState(() => toDateInput(new Date()))
+
+  useEffect(() => {
+    if (isOpen) setDataset(initialDataset)
+  }, [isOpen, initialDataset])
+
+  const fromTimestamp = Math.floor(new Date(`${from}T00:00:00`).getTime() / 1000)
+  const toTimestamp = Math.floor(new Date(`${to}T23:59:59`).getTime() / 1000)
+  const isRangeValid = !!from && !!to && fromTimestamp <= toTimestamp
+  const entriesInRange = isRangeValid
+    ? history.filter((entry) => entry.timestamp >= fromTimestamp && entry.timestamp <= toTimestamp)
+    : []
+  const recordCount = dataset === "roster" ? employees.length : entriesInRange.length
+
+  const nameOf = (address: string) =>
+    employees.find((employee) => employee.address.toLowerCase() === address.toLowerCase())?.name
+
+  const handleExport = () => {
+    try {
+      if (dataset === "roster") {
+        exportRoster(employees, decimals, format, employer)
+      } else {
+        exportPayrollHistory(entriesInRange, decimals, format, {
+          employer,
+          from: fromTimestamp,
+          to: toTimestamp,
+          nameOf,
+        })
+      }
+      onClose()
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: error.message || "Failed to export",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>Download your roster or payroll history for accounting and reconciliation</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Data</label>
+              <select
+                className={selectClassName}
+                value={dataset}
+                onChange={(e) => setDataset(e.target.value as ExportDataset)}
+              >
+                <option value="payroll">Payroll history</option>
+                <option value="roster">Employee roster</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Format</label>
+              <select
+                className={selectClassName}
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+                <option value="pdf">PDF (print)</option>
+              </select>
+            </div>
+          </div>
+          {dataset === "payroll" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">From</label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">To</label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {dataset === "payroll" && !isRangeValid
+              ? "Choose a start date on or before the end date."
+              : `${recordCount} ${dataset === "roster" ? "employees" : "disbursements"} will be exported.`}
+          </p>
+        </div>
+        <DialogFooter>
+          <GradientButton className="gap-2" onClick={handleExport} disabled={recordCount === 0}>
+            <Download className="h-4 w-4" />
+            Export
+          </GradientButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { GradientButton } from "@/components/ui/gradient-button"
+import { Upload, RotateCcw } from "lucide-react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { useContractStatus } from "@/providers/contract-status-provider"
+import { ContractPausedBanner } from "@/components/contract-paused-banner"
+import { isImportable, useEmployeeImport, type ImportRow, type ImportRowStatus } from "@/hooks/use-employee-import"
+
+interface ImportEmployeesModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: () => void
+}
+
+const statusLabels: Record<ImportRowStatus, string> = {
+  new: "New",
+  update: "Update",
+  unchanged: "Unchanged",
+  duplicate: "Duplicate",
+  invalid: "Invalid",
+}
+
+const statusStyles: Record<ImportRowStatus, string> = {
+  new: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400",
+  update: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400",
+  unchanged: "bg-muted text-muted-foreground",
+  duplicate: "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400",
+  invalid: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400",
+}
+
+function rowOutcome(row: ImportRow) {
+  if (row.issues.length) return <span className="text-red-500">{row.issues.join(", ")}</span>
+  if (row.submitStatus === "submitting") return <span className="text-blue-500">Submitting...</span>
+  if (row.submitStatus === "done") return <span className="text-green-600">Scheduled</span>
+  if (row.submitStatus === "failed") return <span className="text-red-500">{row.submitError}</span>
+  return null
+}
+
+export function ImportEmployeesModal({ isOpen, onClose, onImported }: ImportEmployeesModalProps) {
+  const { formatAddress } = useWeb3()
+  const { rows, preview, submit, retryFailed, reset, isPreviewing, isSubmitting } = useEmployeeImport()
+  const { isPaused } = useContractStatus()
+  const [fileName, setFileName] = useState<string | null>(null)
+
+  const importable = rows.filter(isImportable)
+  const completed = importable.filter((row) => row.submitStatus === "done").length
+  const failed = importable.filter((row) => row.submitStatus === "failed").length
+  const pending = importable.filter((row) => row.submitStatus === "pending").length
+  const counts = rows.reduce(
+    (acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }),
+    {} as Partial<Record<ImportRowStatus, number>>,
+  )
+
+  const handleClose = () => {
+    if (isSubmitting) return
+    reset()
+    setFileName(null)
+    onClose()
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    await preview(await file.text())
+  }
+
+  const handleSubmit = async (retry: boolean) => {
+    await (retry ? retryFailed() : submit())
+    onImported()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Import Employees</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with the columns name, wallet, amount, schedule (Weekly, Bi-weekly or Monthly). Review the
+            changes before any transaction is sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <ContractPausedBanner actions={{ schedule: "importing employees" }} />
+
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            disabled={isPreviewing || isSubmitting}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+
+          {isPreviewing && <p className="text-sm text-muted-foreground">Checking {fileName} against the chain...</p>}
+
+          {!isPreviewing && rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(Object.keys(statusLabels) as ImportRowStatus[])
+                  .filter((status) => counts[status])
+                  .map((status) => (
+                    <span key={status} className={`px-2 py-1 rounded-full ${statusStyles[status]}`}>
+                      {statusLabels[status]}: {counts[status]}
+                    </span>
+                  ))}
+              </div>
+
+              <div className="rounded-md border max-h-[320px] overflow-y-auto">
+                <div className="grid grid-cols-12 bg-muted/50 p-3 text-sm font-medium sticky top-0">
+                  <div className="col-span-1">Row</div>
+                  <div className="col-span-3">Employee</div>
+                  <div className="col-span-3">Change</div>
+                  <div className="col-span-2">Status</div>
+                  <div className="col-span-3"></div>
+                </div>
+                {rows.map((row) => (
+                  <div key={row.row} className="grid grid-cols-12 p-3 text-sm border-t items-center">
+                    <div className="col-span-1 text-muted-foreground">{row.row}</div>
+                    <div className="col-span-3">
+                      <div className="font-medium truncate">{row.name || "-"}</div>
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {row.issues.includes("Invalid wallet address") ? row.address : formatAddress(row.address)}
+                      </div>
+                    </div>
+                    <div className="col-span-3">
+                      {row.status === "update" && (
+                        <div className="text-xs text-muted-foreground line-through">
+                          {row.currentAmount} SPAY, {row.currentSchedule}
+                        </div>
+                      )}
+                      <div>
+                        {row.amount} SPAY, {row.schedule}
+                      </div>
+                    </div>
+                    <div className="col-span-2">
+                      <span className={`px-2 py-1 rounded-full text-xs ${statusStyles[row.status]}`}>
+                        {statusLabels[row.status]}
+                      </span>
+                    </div>
+                    <div className="col-span-3 text-xs">{rowOutcome(row)}</div>
+                  </div>
+                ))}
+              </div>
+
+              {importable.length > 0 && (completed > 0 || failed > 0 || isSubmitting) && (
+                <div className="space-y-1">
+                  <Progress value={((completed + failed) / importable.length) * 100} className="h-2" />
+                  <p className="text-xs text-muted-foreground">
+                    {completed} of {importable.length} scheduled{failed ? `, ${failed} failed` : ""}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {failed > 0 && !isSubmitting && !isPaused("schedule") && (
+            <Button variant="outline" className="gap-2" onClick={() => handleSubmit(true)}>
+              <RotateCcw className="h-4 w-4" />
+              Retry Failed ({failed})
+            </Button>
+          )}
+          <GradientButton
+            className="gap-2"
+            onClick={() => handleSubmit(false)}
+            disabled={isPreviewing || isSubmitting || pending === 0 || isPaused("schedule")}
+          >
+            <Upload className="h-4 w-4" />
+            {isSubmitting ? "Submitting..." : `Import ${pending} Employees`}
+          </GradientButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
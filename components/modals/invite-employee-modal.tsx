@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { ethers } from "ethers"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { GradientButton } from "@/components/ui/gradient-button"
+import { Copy, Link2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { PAYMENT_INTERVALS } from "@/lib/employee-roster"
+import { buildInvitationUrl, signEmployeeInvitation } from "@/lib/employee-invitation"
+import { getRevertReason } from "@/WEB3/blockchainIntergation"
+
+interface InviteEmployeeModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const emptyForm = {
+  employee: "",
+  amount: "",
+  schedule: "Bi-weekly",
+  validForDays: "7",
+}
+
+export function InviteEmployeeModal({ isOpen, onClose }: InviteEmployeeModalProps) {
+  const { toast } = useToast()
+  const [formData, setFormData] = useState(emptyForm)
+  const [invitationUrl, setInvitationUrl] = useState<string | null>(null)
+  const [isSigning, setIsSigning] = useState(false)
+
+  const employeeError =
+    formData.employee && !ethers.utils.isAddress(formData.employee.trim()) ? "Invalid wallet address" : null
+  const canGenerate = !!formData.amount && Number(formData.amount) > 0 && Number(formData.validForDays) > 0 && !employeeError
+
+  const handleClose = () => {
+    setFormData(emptyForm)
+    setInvitationUrl(null)
+    onClose()
+  }
+
+  const handleGenerate = async () => {
+    if (!canGenerate) return
+
+    setIsSigning(true)
+    try {
+      const signed = await signEmployeeInvitation({
+        employee: formData.employee.trim() || undefined,
+        amount: formData.amount,
+        interval: PAYMENT_INTERVALS[formData.schedule],
+        validForDays: Number(formData.validForDays),
+      })
+      setInvitationUrl(buildInvitationUrl(signed))
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getRevertReason(error) || error.message || "Failed to sign invitation",
+      })
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!invitationUrl) return
+    await navigator.clipboard.writeText(invitationUrl)
+    toast({
+      title: "Copied",
+      description: "Invitation link copied to clipboard",
+    })
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Invite Employee</DialogTitle>
+          <DialogDescription>
+            Sign the proposed pay terms and share the link. The employee registers under your company from their own
+            wallet.
+          </DialogDescription>
+        </DialogHeader>
+        {invitationUrl ? (
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Invitation Link</label>
+              <div className="flex gap-2">
+                <Input readOnly value={invitationUrl} className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={handleCopy}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Once they register, they appear in your roster with an option to apply these pay terms in one click. Each link can be claimed once.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Employee Wallet (optional)</label>
+              <Input
+                placeholder="0x... (leave empty for any wallet)"
+                value={formData.employee}
+                onChange={(e) => setFormData({ ...formData, employee: e.target.value })}
+              />
+              {employeeError && <p className="text-sm text-red-500">{employeeError}</p>}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Proposed Salary (SPAY)</label>
+              <Input
+                type="number"
+                placeholder="1000"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Payment Schedule</label>
+                <select
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                  value={formData.schedule}
+                  onChange={(e) => setFormData({ ...formData, schedule: e.target.value })}
+                >
+                  {Object.keys(PAYMENT_INTERVALS).map((schedule) => (
+                    <option key={schedule}>{schedule}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Valid For (days)</label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={formData.validForDays}
+                  onChange={(e) => setFormData({ ...formData, validForDays: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          {invitationUrl ? (
+            <Button variant="outline" onClick={handleClose}>
+              Done
+            </Button>
+          ) : (
+            <GradientButton className="gap-2" onClick={handleGenerate} disabled={isSigning || !canGenerate}>
+              <Link2 className="h-4 w-4" />
+              {isSigning ? "Waiting for signature..." : "Generate Link"}
+            </GradientButton>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ethers } from "ethers"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
+import { Calendar } from "@/components/ui/calendar"
+import { useWeb3 } from "@/providers/web3-provider"
+import type { RosterEmployee } from "@/lib/employee-roster"
+import { explorerTxUrl, type PayrollHistoryEntry } from "@/lib/payroll-history"
+import { buildPayrollCalendar, dayKey, type PayrollCalendarStatus } from "@/lib/payroll-calendar"
+import { formatDate, formatTokenAmount } from "@/lib/utils"
+
+interface PayrollCalendarModalProps {
+  isOpen: boolean
+  onClose: () => void
+  employees: RosterEmployee[]
+  history: PayrollHistoryEntry[]
+  decimals: number
+}
+
+const statusLabels: Record<PayrollCalendarStatus, string> = {
+  paid: "Paid",
+  upcoming: "Upcoming",
+  overdue: "Missed",
+}
+
+const statusStyles: Record<PayrollCalendarStatus, string> = {
+  paid: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400",
+  upcoming: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400",
+  overdue: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400",
+}
+
+const sum = (values: ethers.BigNumber[]) => values.reduce((total, value) => total.add(value), ethers.constants.Zero)
+
+export function PayrollCalendarModal({ isOpen, onClose, employees, history, decimals }: PayrollCalendarModalProps) {
+  const { formatAddress } = useWeb3()
+  const [month, setMonth] = useState(() => new Date())
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(() => new Date())
+
+  // Cover the whole grid, including the outside days shown from neighbouring months
+  const entries = useMemo(() => {
+    const from = new Date(month.getFullYear(), month.getMonth() - 1, 20).getTime() / 1000
+    const until = new Date(month.getFullYear(), month.getMonth() + 1, 14).getTime() / 1000
+    return buildPayrollCalendar(employees, history, from, until)
+  }, [employees, history, month])
+
+  const byDay = useMemo(() => {
+    const days = new Map<string, typeof entries>()
+    entries.forEach((entry) => {
+      const key = dayKey(entry.timestamp)
+      days.set(key, [...(days.get(key) ?? []), entry])
+    })
+    return days
+  }, [entries])
+
+  // One marker per day; a missed run outranks an upcoming one, which outranks a completed one
+  const modifiers = useMemo(() => {
+    const marked: Record<PayrollCalendarStatus, Date[]> = { paid: [], upcoming: [], overdue: [] }
+    byDay.forEach((dayEntries) => {
+      const statuses = new Set(dayEntries.map((entry) => entry.status))
+      const status: PayrollCalendarStatus = statuses.has("overdue") ? "overdue" : statuses.has("upcoming") ? "upcoming" : "paid"
+      marked[status].push(new Date(dayEntries[0].timestamp * 1000))
+    })
+    return marked
+  }, [byDay])
+
+  const inMonth = entries.filter((entry) => {
+    const date = new Date(entry.timestamp * 1000)
+    return date.getMonth() === month.getMonth() && date.getFullYear() === month.getFullYear()
+  })
+  const paidThisMonth = sum(inMonth.filter((entry) => entry.status === "paid").map((entry) => entry.grossAmount))
+  const owedThisMonth = sum(inMonth.filter((entry) => entry.status !== "paid").map((entry) => entry.grossAmount))
+
+  const dayEntries = selectedDay ? byDay.get(dayKey(selectedDay)) ?? [] : []
+
+  const nameOf = (address: string) =>
+    employees.find((employee) => employee.address.toLowerCase() === address.toLowerCase())?.name ||
+    formatAddress(address)
+
+  const spay = (value: ethers.BigNumber) => `${formatTokenAmount(value, decimals)} SPAY`
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Payroll Calendar</DialogTitle>
+          <DialogDescription>
+            Past disbursements and projected pay dates. Select a day to see who is paid on it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 py-4 md:grid-cols-2">
+          <div className="space-y-3">
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={setSelectedDay}
+              month={month}
+              onMonthChange={setMonth}
+              modifiers={modifiers}
+              modifiersClassNames={statusStyles}
+              className="rounded-md border w-fit"
+            />
+            <div className="flex flex-wrap gap-2 text-xs">
+              {(Object.keys(statusLabels) as PayrollCalendarStatus[]).map((status) => (
+                <span key={status} className={`px-2 py-1 rounded-full ${statusStyles[status]}`}>
+                  {statusLabels[status]}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Paid this month</p>
+                <p className="font-medium">{spay(paidThisMonth)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Due or missed this month</p>
+                <p className="font-medium">{spay(owedThisMonth)}</p>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">{selectedDay ? formatDate(selectedDay) : "No day selected"}</p>
+              {dayEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No pay runs on this day.</p>
+              ) : (
+                <div className="rounded-md border max-h-[280px] overflow-y-auto">
+                  {dayEntries.map((entry, index) => (
+                    <div
+                      key={`${entry.employee}-${entry.timestamp}-${index}`}
+                      className="flex items-center justify-between gap-3 p-3 text-sm border-t first:border-t-0"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{nameOf(entry.employee)}</div>
+                        {entry.txHash ? (
+                          <a
+                            href={explorerTxUrl(entry.txHash)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-xs text-muted-foreground hover:underline"
+                          >
+                            {formatAddress(entry.txHash)}
+                          </a>
+                        ) : (
+                          <div className="font-mono text-xs text-muted-foreground">{formatAddress(entry.employee)}</div>
+                        )}
+                      </div>
+                      <div className="text-right shrink-0">
+                        <div>{spay(entry.grossAmount)}</div>
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${statusStyles[entry.status]}`}>
+                          {statusLabels[entry.status]}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ethers } from "ethers"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { GradientButton } from "@/components/ui/gradient-button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, Briefcase, CheckCircle2, RefreshCw } from "lucide-react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { usePayrollPreflight } from "@/hooks/use-payroll-preflight"
+import type { RosterEmployee } from "@/lib/employee-roster"
+import {
+  computePreflightTotals,
+  findPreflightIssues,
+  isReadyToPay,
+  type PreflightEmployee,
+  type PreflightFix,
+} from "@/lib/payroll-preflight"
+import { formatBps, formatDate, formatTokenAmount } from "@/lib/utils"
+
+interface PayrollPreflightModalProps {
+  isOpen: boolean
+  onClose: () => void
+  employees: RosterEmployee[]
+  isProcessing: boolean
+  onConfirm: (employees: string[]) => Promise<void>
+}
+
+function employeeStatus(employee: PreflightEmployee) {
+  if (!employee.isScheduled) return <span className="text-muted-foreground">Not scheduled</span>
+  if (!employee.isDue) {
+    return <span className="text-muted-foreground">Due {formatDate(employee.nextPaymentTimestamp)}</span>
+  }
+  return <span className="text-green-600">Due</span>
+}
+
+export function PayrollPreflightModal({ isOpen, onClose, employees, isProcessing, onConfirm }: PayrollPreflightModalProps) {
+  const { formatAddress } = useWeb3()
+  const { preflight, isLoading, isFixing, refresh, approve, verify } = usePayrollPreflight(
+    employees.map((employee) => employee.address),
+    isOpen,
+  )
+  // Lowercased addresses; null until the first pre-flight picks the default selection
+  const [selected, setSelected] = useState<Set<string> | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSelected(null)
+    } else if (preflight && selected === null) {
+      setSelected(new Set(preflight.employees.filter(isReadyToPay).map((employee) => employee.address.toLowerCase())))
+    }
+  }, [isOpen, preflight, selected])
+
+  const nameOf = (address: string) =>
+    employees.find((employee) => employee.address.toLowerCase() === address.toLowerCase())?.name ||
+    formatAddress(address)
+
+  const spay = (value: ethers.BigNumber) => `${formatTokenAmount(value, preflight?.decimals)} SPAY`
+
+  const selectedEmployees = preflight?.employees.filter((employee) => selected?.has(employee.address.toLowerCase())) ?? []
+  const totals = preflight ? computePreflightTotals(preflight, selectedEmployees) : null
+  const issues = preflight ? findPreflightIssues(preflight, selectedEmployees, spay) : []
+  const isBlocked = issues.some((issue) => issue.blocking)
+  const payable = selectedEmployees.filter((employee) => employee.isDue)
+
+  const toggle = (address: string, checked: boolean) => {
+    const next = new Set(selected)
+    if (checked) {
+      next.add(address.toLowerCase())
+    } else {
+      next.delete(address.toLowerCase())
+    }
+    setSelected(next)
+  }
+
+  const applyFix = async (fix: PreflightFix) => {
+    if (fix.kind === "approve") {
+      await approve(fix.amount)
+    } else if (fix.kind === "verify") {
+      await verify(fix.address)
+    } else {
+      const next = new Set(selected)
+      fix.employees.forEach((address) => next.delete(address.toLowerCase()))
+      setSelected(next)
+    }
+  }
+
+  const fixLabel = (fix: PreflightFix) => {
+    if (fix.kind === "approve") return `Approve ${spay(fix.amount)}`
+    if (fix.kind === "verify") return "Verify"
+    return `Deselect ${fix.employees.length}`
+  }
+
+  const handleClose = () => {
+    if (isProcessing || isFixing) return
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Payroll Pre-flight</DialogTitle>
+          <DialogDescription>
+            Check funding, allowances, KYC and due dates before sending the payroll transaction.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preflight ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            {isLoading ? "Checking payroll state on chain..." : "No pre-flight data available."}
+          </p>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="rounded-md border max-h-[240px] overflow-y-auto">
+              <div className="grid grid-cols-12 bg-muted/50 p-3 text-sm font-medium sticky top-0">
+                <div className="col-span-1"></div>
+                <div className="col-span-4">Employee</div>
+                <div className="col-span-3">Gross</div>
+                <div className="col-span-2">Status</div>
+                <div className="col-span-2">KYC</div>
+              </div>
+              {preflight.employees.map((employee) => (
+                <div key={employee.address} className="grid grid-cols-12 p-3 text-sm border-t items-center">
+                  <div className="col-span-1">
+                    <Checkbox
+                      checked={selected?.has(employee.address.toLowerCase()) ?? false}
+                      onCheckedChange={(checked) => toggle(employee.address, checked === true)}
+                      disabled={isProcessing || isFixing}
+                    />
+                  </div>
+                  <div className="col-span-4">
+                    <div className="font-medium truncate">{nameOf(employee.address)}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{formatAddress(employee.address)}</div>
+                  </div>
+                  <div className="col-span-3">{employee.isScheduled ? spay(employee.amount) : "-"}</div>
+                  <div className="col-span-2 text-xs">{employeeStatus(employee)}</div>
+                  <div className="col-span-2 text-xs">
+                    {employee.isVerified ? (
+                      <span className="text-green-600">Verified</span>
+                    ) : preflight.canVerify ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        disabled={isFixing || isProcessing}
+                        onClick={() => verify(employee.address)}
+                      >
+                        Verify
+                      </Button>
+                    ) : (
+                      <span className="text-red-500">Unverified</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {totals && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Gross</p>
+                  <p className="font-medium">{spay(totals.gross)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Tax ({formatBps(preflight.taxRateBps)})</p>
+                  <p className="font-medium">{spay(totals.tax)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Fees ({formatBps(preflight.feeRateBps)})</p>
+                  <p className="font-medium">{spay(totals.fee)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Net to employees</p>
+                  <p className="font-medium">{spay(totals.net)}</p>
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Balance {spay(preflight.balance)} · PayrollProcessor allowance {spay(preflight.allowance)}
+            </p>
+
+            {issues.length === 0 ? (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <AlertDescription>All checks passed.</AlertDescription>
+              </Alert>
+            ) : (
+              <div className="space-y-2">
+                {issues.map((issue) => (
+                  <Alert key={issue.id} variant={issue.blocking ? "destructive" : "default"}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription className="flex items-center justify-between gap-3">
+                      <span>{issue.message}</span>
+                      <span className="flex gap-2 shrink-0">
+                        {issue.fixes.map((fix, index) => (
+                          <Button
+                            key={index}
+                            variant="outline"
+                            size="sm"
+                            disabled={isFixing || isProcessing}
+                            onClick={() => applyFix(fix)}
+                          >
+                            {fixLabel(fix)}
+                          </Button>
+                        ))}
+                      </span>
+                    </AlertDescription>
+                  </Alert>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" className="gap-2" onClick={refresh} disabled={isLoading || isFixing || isProcessing}>
+            <RefreshCw className="h-4 w-4" />
+            Re-check
+          </Button>
+          <GradientButton
+            className="gap-2"
+            gradientFrom="#6366F1"
+            gradientTo="#D946EF"
+            onClick={() => onConfirm(payable.map((employee) => employee.address))}
+            disabled={!preflight || isLoading || isFixing || isProcessing || isBlocked || payable.length === 0}
+          >
+            <Briefcase className="h-4 w-4" />
+            {isProcessing ? "Processing..." : `Pay ${payable.length} ${payable.length === 1 ? "Employee" : "Employees"}`}
+          </GradientButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { GradientButton } from "@/components/ui/gradient-button"
+import { Download, ExternalLink } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { describeInterval } from "@/lib/employee-roster"
+import { printPayslip, type Payslip } from "@/lib/payslips"
+import { formatBps, formatDate, formatTokenAmount } from "@/lib/utils"
+
+interface PayslipModalProps {
+  payslip: Payslip | null
+  decimals: number
+  onClose: () => void
+}
+
+export function PayslipModal({ payslip, decimals, onClose }: PayslipModalProps) {
+  const { toast } = useToast()
+
+  if (!payslip) return null
+
+  const amount = (value: Payslip["grossAmount"]) => `${formatTokenAmount(value, decimals)} SPAY`
+
+  const handleDownload = () => {
+    try {
+      printPayslip(payslip, decimals)
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Download Failed",
+        description: error.message || "Failed to open the payslip",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={!!payslip} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Payslip</DialogTitle>
+          <DialogDescription>Paid {formatDate(payslip.timestamp)}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4 text-sm">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="text-muted-foreground">Employer</div>
+            <div className="col-span-2 font-mono break-all">{payslip.employer}</div>
+            <div className="text-muted-foreground">Pay period</div>
+            <div className="col-span-2">
+              {payslip.paymentInterval
+                ? `${formatDate(payslip.periodStart)} – ${formatDate(payslip.periodEnd)} (${describeInterval(payslip.paymentInterval)})`
+                : formatDate(payslip.periodEnd)}
+            </div>
+          </div>
+          <div className="rounded-md border">
+            <div className="flex justify-between p-3">
+              <span>Gross pay</span>
+              <span className="font-medium">{amount(payslip.grossAmount)}</span>
+            </div>
+            <div className="flex justify-between border-t p-3">
+              <span>Tax withheld ({formatBps(payslip.taxRateBps)})</span>
+              <span className="text-red-600 dark:text-red-400">-{amount(payslip.taxAmount)}</span>
+            </div>
+            <div className="flex justify-between border-t p-3">
+              <span>Platform fee ({formatBps(payslip.feeRateBps)})</span>
+              <span className="text-red-600 dark:text-red-400">-{amount(payslip.feeAmount)}</span>
+            </div>
+            <div className="flex justify-between border-t bg-muted/50 p-3 font-medium">
+              <span>Net received</span>
+              <span className="text-green-600 dark:text-green-400">{amount(payslip.netAmount)}</span>
+            </div>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" className="gap-2" asChild>
+            <a href={payslip.explorerUrl} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="h-4 w-4" />
+              View Transaction
+            </a>
+          </Button>
+          <GradientButton className="gap-2" onClick={handleDownload}>
+            <Download className="h-4 w-4" />
+            Download
+          </GradientButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,6 +7,8 @@ import { GradientButton } from "@/components/ui/gradient-button"
 import { Input } from "@/components/ui/input"
 import { registerAsEmployer, registerAsEmployee, checkEmployerRole, checkEmployeeRole } from "@/WEB3/roleAuthentication"
 import { CheckCircle, Briefcase, User, AlertCircle } from "lucide-react"
+import { useContractStatus } from "@/providers/contract-status-provider"
+import { ContractPausedBanner } from "@/components/contract-paused-banner"
 
 interface RoleSelectionModalProps {
   isOpen: boolean
@@ -21,6 +23,9 @@ export function RoleSelectionModal({ isOpen, onClose, onSuccess }: RoleSelection
   const [error, setError] = useState<string | null>(null)
   const [mode, setMode] = useState<"register" | "login">("register")
   const [validationError, setValidationError] = useState<string | null>(null)
+  const { isPaused } = useContractStatus()
+  // Logging in only reads roles, so only registration is blocked while RoleManager is paused
+  const isRegistrationPaused = mode === "register" && isPaused("registration")
 
   const validateEmployerAddress = (address: string) => {
     // Basic Ethereum address validation
@@ -171,6 +176,8 @@ export function RoleSelectionModal({ isOpen, onClose, onSuccess }: RoleSelection
             </div>
           )}
 
+          {mode === "register" && <ContractPausedBanner actions={{ registration: "registration" }} />}
+
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-md p-3 flex items-center gap-2">
               <AlertCircle className="text-red-500" size={16} />
@@ -189,7 +196,12 @@ export function RoleSelectionModal({ isOpen, onClose, onSuccess }: RoleSelection
           </Button>
           <GradientButton
             onClick={handleRoleSelection}
-            disabled={isProcessing || !selectedRole || (selectedRole === "employee" && (!employerAddress || !!validationError))}
+            disabled={
+              isProcessing ||
+              isRegistrationPaused ||
+              !selectedRole ||
+              (selectedRole === "employee" && (!employerAddress || !!validationError))
+            }
             gradientFrom="#6366F1"
             gradientTo="#D946EF"
             className="px-6"
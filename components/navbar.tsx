@@ -11,10 +11,12 @@ import { useTheme } from "next-themes"
 import { useWeb3 } from "@/providers/web3-provider"
 import { useSPAYToken } from "@/hooks/use-spay-token"
 import { RoleSelectionModal } from "@/components/modals/role-selection-modal"
+import { fetchAdminContracts } from "@/lib/protocol-roles"
 export function Navbar() {
   const [isOpen, setIsOpen] = useState(false)
   const [mounted, setMounted] = useState(false)
   const [showRoleModal, setShowRoleModal] = useState(false)
+  const [isAdmin, setIsAdmin] = useState(false)
   const { theme, setTheme } = useTheme()
   const { account, isConnected, isConnecting, connectWallet, disconnectWallet, formatAddress, viewOnExplorer } =
     useWeb3()
@@ -24,9 +26,33 @@ export function Navbar() {
     setMounted(true)
   }, [])
 
+  // /admin is only linked for wallets that can manage roles
+  useEffect(() => {
+    if (!isConnected || !account) {
+      setIsAdmin(false)
+      return
+    }
+
+    let cancelled = false
+    fetchAdminContracts(account)
+      .then((contracts) => {
+        if (!cancelled) setIsAdmin(contracts.length > 0)
+      })
+      .catch((error) => {
+        console.error("Failed to check admin access:", error)
+        if (!cancelled) setIsAdmin(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [account, isConnected])
+
   const toggleMenu = () => setIsOpen(!isOpen)
 
   const navItems = [
+    { name: "Reserves", href: "/reserves" },
+    { name: "Collateral", href: "/collateral" },
+    ...(isAdmin ? [{ name: "Admin", href: "/admin" }] : []),
     { name: "Join Waitlist", href: "https://form.typeform.com/to/tSPrvBHT" }
   ]
 
@@ -122,10 +148,9 @@ export function Navbar() {
                     variant="outline" 
                     size="sm" 
                     className="text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
-                    onClick={() => {
+                    onClick={async () => {
                       setShowRoleModal(false);
-                      disconnectWallet();
-                      document.cookie = 'auth-token=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/';
+                      await disconnectWallet();
                       window.location.href = "/";
                     }}
                   >
@@ -1,15 +1,27 @@
 "use client"
 
 import { useWeb3 } from "@/providers/web3-provider"
+import { useContractStatus } from "@/providers/contract-status-provider"
 import { DEFAULT_CHAIN } from "@/config/blockchain"
+import { PROTOCOL_CONTRACTS, PROTOCOL_CONTRACT_LABELS } from "@/lib/protocol-roles"
+import type { ContractHealth } from "@/lib/contract-status"
 import { Card, CardContent } from "@/components/ui/card"
 import { ExternalLink, Globe } from "lucide-react"
 import { Button } from "@/components/ui/button"
 
+const healthStyles: Record<ContractHealth, string> = {
+  active: "bg-green-500",
+  paused: "bg-red-500",
+  unknown: "bg-muted-foreground",
+}
+
 export function NetworkInfo() {
   const { chainId, isConnected } = useWeb3()
+  const { statuses, lastChecked } = useContractStatus()
 
   const isCorrectNetwork = chainId === DEFAULT_CHAIN.id
+  const pausedCount = PROTOCOL_CONTRACTS.filter((contract) => statuses[contract] === "paused").length
+  const unknownCount = PROTOCOL_CONTRACTS.filter((contract) => statuses[contract] === "unknown").length
 
   const openExplorer = () => {
     window.open(DEFAULT_CHAIN.blockExplorers.default.url, "_blank")
@@ -43,6 +55,27 @@ export function NetworkInfo() {
             <ExternalLink className="h-3 w-3 ml-1" />
           </Button>
         </div>
+
+        <div className="mt-4 border-t pt-3">
+          <div className="text-sm font-medium mb-2">
+            {lastChecked === null
+              ? "Checking contract status..."
+              : pausedCount > 0
+                ? `${pausedCount} ${pausedCount === 1 ? "contract" : "contracts"} paused`
+                : unknownCount > 0
+                  ? "Some contracts could not be reached"
+                  : "All contracts operational"}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {PROTOCOL_CONTRACTS.map((contract) => (
+              <div key={contract} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <div className={`h-2 w-2 rounded-full ${healthStyles[statuses[contract]]}`} />
+                {PROTOCOL_CONTRACT_LABELS[contract]}
+                {statuses[contract] === "paused" && <span className="text-red-500">Paused</span>}
+              </div>
+            ))}
+          </div>
+        </div>
       </CardContent>
     </Card>
   )
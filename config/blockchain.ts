@@ -24,6 +24,22 @@ export const DEFAULT_CHAIN = {
   testnet: true,
 }
 
+// RPC endpoint for read-only calls. Set NEXT_PUBLIC_RPC_URL to point at a local Anvil/Hardhat node.
+export const READ_RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || DEFAULT_CHAIN.rpcUrls.public.http[0]
+
+// First block the event index scans: the contracts' deployment block. When unset it is looked up
+// from the node, which must then serve historical state (eth_getCode at past blocks).
+export const INDEX_START_BLOCK = process.env.NEXT_PUBLIC_INDEX_START_BLOCK
+  ? Number(process.env.NEXT_PUBLIC_INDEX_START_BLOCK)
+  : null
+
+// Upper bound on employees per disbursePayrollBatch call. Each disbursement does three
+// token transfers, so this keeps a single transaction well under the block gas limit.
+export const PAYROLL_BATCH_SIZE = 20
+
+// How often contract pause state is re-read, in milliseconds. Paused/Unpaused events update it sooner.
+export const CONTRACT_STATUS_POLL_INTERVAL = 60_000
+
 // Pharos addresses start with "phr" instead of "0x"
 export const CONTRACT_ADDRESSES = {
   SPAY_TOKEN_CONTRACT: "0x60c977735cfBF44Cf5B33bD02a8B637765E7AbbB",
@@ -0,0 +1,83 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { fetchActivityHistory, type ActivityCategory, type ActivityEntry } from "@/lib/activity-history"
+
+export type ActivityFilter = "all" | ActivityCategory
+
+// Paginated activity timeline for the connected account, newest first
+export function useActivityHistory(pageSize = 10) {
+  const { account, isConnected } = useWeb3()
+  const [entries, setEntries] = useState<ActivityEntry[]>([])
+  const [decimals, setDecimals] = useState<Record<ActivityEntry["token"], number>>({ SPAY: 18, ETF: 18 })
+  const [isLoading, setIsLoading] = useState(false)
+  const [filter, setFilterState] = useState<ActivityFilter>("all")
+  const [page, setPage] = useState(0)
+
+  const refresh = useCallback(async () => {
+    if (!isConnected || !account) {
+      setEntries([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { spayToken, etfToken } = getReadOnlyContracts()
+      const [history, spayDecimals, etfDecimals] = await Promise.all([
+        fetchActivityHistory(account),
+        spayToken.decimals(),
+        etfToken.decimals(),
+      ])
+      setEntries(history)
+      setDecimals({ SPAY: spayDecimals, ETF: etfDecimals })
+    } catch (error) {
+      console.error("Failed to load activity history:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [account, isConnected])
+
+  useEffect(() => {
+    refresh()
+
+    if (!isConnected || !account) return
+
+    // Every activity type moves SPAY or ETF for this account, so token transfers are enough to trigger a refresh
+    const { spayToken, etfToken } = getReadOnlyContracts()
+    const filters = [
+      { contract: spayToken, filter: spayToken.filters.Transfer(account, null) },
+      { contract: spayToken, filter: spayToken.filters.Transfer(null, account) },
+      { contract: etfToken, filter: etfToken.filters.Transfer(null, account) },
+    ]
+    filters.forEach(({ contract, filter }) => contract.on(filter, refresh))
+
+    return () => {
+      filters.forEach(({ contract, filter }) => contract.off(filter, refresh))
+    }
+  }, [account, isConnected, refresh])
+
+  const filtered = filter === "all" ? entries : entries.filter((entry) => entry.category === filter)
+  const pageCount = Math.max(Math.ceil(filtered.length / pageSize), 1)
+
+  const setFilter = (next: ActivityFilter) => {
+    setFilterState(next)
+    setPage(0)
+  }
+
+  return {
+    entries: filtered.slice(page * pageSize, (page + 1) * pageSize),
+    // Most recent activity regardless of filter, for the dashboard summary
+    recent: entries.slice(0, 3),
+    total: filtered.length,
+    decimals,
+    isLoading,
+    filter,
+    setFilter,
+    page,
+    pageCount,
+    setPage,
+    refresh,
+  }
+}
@@ -0,0 +1,218 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ethers } from "ethers"
+import { useWeb3 } from "@/providers/web3-provider"
+import { toast } from "@/components/ui/use-toast"
+import { CONTRACT_ADDRESSES } from "@/config/blockchain"
+import {
+  ensureETFAllowance,
+  getReadOnlyContracts,
+  getRevertReason,
+  lockCollateral,
+  releaseCollateral,
+  updateCollateralRatio,
+} from "@/WEB3/blockchainIntergation"
+import { DEFAULT_ADMIN_ROLE, checkRole } from "@/WEB3/roleAuthentication"
+import {
+  collateralRatioBps,
+  fetchCollateralHistory,
+  fetchCollateralOverview,
+  type CollateralHistoryEntry,
+  type CollateralOverview,
+} from "@/lib/collateral"
+import { roleHash } from "@/lib/protocol-roles"
+import { formatBps, formatTokenAmount } from "@/lib/utils"
+
+const COLLATERAL_EVENTS = ["CollateralLocked", "CollateralReleased", "CollateralRatioUpdated"]
+
+// Collateral state and history for everyone; lock/release for MANAGER_ROLE and ratio updates for DEFAULT_ADMIN_ROLE
+export function useCollateralManager() {
+  const { account, isConnected } = useWeb3()
+  const [overview, setOverview] = useState<CollateralOverview | null>(null)
+  const [history, setHistory] = useState<CollateralHistoryEntry[]>([])
+  const [isManager, setIsManager] = useState(false)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const nextOverview = await fetchCollateralOverview()
+      setOverview(nextOverview)
+      setHistory(await fetchCollateralHistory(nextOverview.totalLocked))
+    } catch (error) {
+      console.error("Failed to load collateral data:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+
+    const { collateralManager } = getReadOnlyContracts()
+    COLLATERAL_EVENTS.forEach((event) => collateralManager.on(event, refresh))
+
+    return () => {
+      COLLATERAL_EVENTS.forEach((event) => collateralManager.off(event, refresh))
+    }
+  }, [refresh])
+
+  useEffect(() => {
+    if (!isConnected || !account) {
+      setIsManager(false)
+      setIsAdmin(false)
+      return
+    }
+
+    Promise.all([
+      checkRole(roleHash("MANAGER_ROLE"), account, "collateralManager"),
+      checkRole(DEFAULT_ADMIN_ROLE, account, "collateralManager"),
+    ])
+      .then(([manager, admin]) => {
+        setIsManager(manager)
+        setIsAdmin(admin)
+      })
+      .catch((error) => {
+        console.error("Failed to check CollateralManager roles:", error)
+        setIsManager(false)
+        setIsAdmin(false)
+      })
+  }, [account, isConnected])
+
+  const requireConnection = () => {
+    if (isConnected) return true
+    toast({
+      title: "Not Connected",
+      description: "Please connect your wallet first.",
+      variant: "destructive",
+    })
+    return false
+  }
+
+  const lock = async (amount: string): Promise<boolean> => {
+    if (!requireConnection() || !overview) return false
+
+    setIsSubmitting(true)
+    try {
+      const etfAmount = ethers.utils.parseUnits(amount, overview.etfDecimals)
+
+      // CollateralManager pulls the ETF from the manager's wallet with transferFrom
+      const approval = await ensureETFAllowance(CONTRACT_ADDRESSES.COLLETRAL_MANAGER, etfAmount)
+      if (approval) {
+        toast({
+          title: "ETF Approved",
+          description: "Approval confirmed. Please confirm the collateral lock in your wallet.",
+        })
+      }
+
+      await lockCollateral(etfAmount)
+      toast({
+        title: "Collateral Locked",
+        description: `Locked ${formatTokenAmount(etfAmount, overview.etfDecimals, 4)} ETF as collateral.`,
+      })
+      return true
+    } catch (error) {
+      console.error("Locking collateral failed:", error)
+      toast({
+        title: "Lock Failed",
+        description: getRevertReason(error) || "There was an error locking collateral.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSubmitting(false)
+      await refresh()
+    }
+  }
+
+  const release = async (amount: string, recipient: string): Promise<boolean> => {
+    if (!requireConnection() || !overview) return false
+
+    if (!ethers.utils.isAddress(recipient)) {
+      toast({
+        title: "Invalid Recipient",
+        description: "Enter a valid wallet address to receive the released ETF.",
+        variant: "destructive",
+      })
+      return false
+    }
+
+    setIsSubmitting(true)
+    try {
+      const etfAmount = ethers.utils.parseUnits(amount, overview.etfDecimals)
+
+      // Same checks the contract makes, so the wallet isn't asked to sign a transaction that will revert
+      if (etfAmount.gt(overview.totalLocked)) {
+        toast({
+          title: "Insufficient Collateral",
+          description: `Only ${formatTokenAmount(overview.totalLocked, overview.etfDecimals, 4)} ETF is locked.`,
+          variant: "destructive",
+        })
+        return false
+      }
+      const projected = collateralRatioBps(overview.totalLocked.sub(etfAmount), overview.etfPriceUsd, overview.spaySupply)
+      if (projected !== null && projected < overview.minRatioBps) {
+        toast({
+          title: "Below Minimum Ratio",
+          description: `Releasing this much would leave the collateral ratio at ${formatBps(projected)}, under the ${formatBps(overview.minRatioBps)} minimum.`,
+          variant: "destructive",
+        })
+        return false
+      }
+
+      await releaseCollateral(etfAmount, recipient)
+      toast({
+        title: "Collateral Released",
+        description: `Released ${formatTokenAmount(etfAmount, overview.etfDecimals, 4)} ETF to ${recipient.slice(0, 6)}...${recipient.slice(-4)}.`,
+      })
+      return true
+    } catch (error) {
+      console.error("Releasing collateral failed:", error)
+      toast({
+        title: "Release Failed",
+        description: getRevertReason(error) || "There was an error releasing collateral.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSubmitting(false)
+      await refresh()
+    }
+  }
+
+  const updateRatio = async (newRatioBps: number): Promise<boolean> => {
+    if (!requireConnection()) return false
+
+    if (!Number.isInteger(newRatioBps) || newRatioBps < 10000) {
+      toast({
+        title: "Invalid Ratio",
+        description: "The collateral ratio must be at least 100%.",
+        variant: "destructive",
+      })
+      return false
+    }
+
+    setIsSubmitting(true)
+    try {
+      await updateCollateralRatio(newRatioBps)
+      toast({ title: "Collateral Ratio Updated", description: `The target ratio is now ${formatBps(newRatioBps)}.` })
+      return true
+    } catch (error) {
+      console.error("Updating collateral ratio failed:", error)
+      toast({
+        title: "Ratio Update Failed",
+        description: getRevertReason(error) || "There was an error updating the collateral ratio.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSubmitting(false)
+      await refresh()
+    }
+  }
+
+  return { overview, history, isManager, isAdmin, isLoading, isSubmitting, refresh, lock, release, updateRatio }
+}
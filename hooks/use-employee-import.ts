@@ -0,0 +1,211 @@
+"use client"
+
+import { useState } from "react"
+import { ethers } from "ethers"
+import { useWeb3 } from "@/providers/web3-provider"
+import { toast } from "@/components/ui/use-toast"
+import {
+  getPayrollSchedule,
+  getReadOnlyContracts,
+  getRevertReason,
+  setPayrollSchedule as setPayrollScheduleOnChain,
+} from "@/WEB3/blockchainIntergation"
+import { handleEmployeeRegistration } from "@/app/actions/employee-registration"
+import { PAYMENT_INTERVALS, describeInterval } from "@/lib/employee-roster"
+import { saveEmployeeProfile } from "@/lib/employee-directory"
+import { parseCsv } from "@/lib/csv"
+import { formatTokenAmount } from "@/lib/utils"
+
+// Rows checked against the chain at once while building the preview
+const PREVIEW_CHUNK_SIZE = 10
+
+export type ImportRowStatus = "invalid" | "duplicate" | "new" | "update" | "unchanged"
+
+export type ImportSubmitStatus = "pending" | "submitting" | "done" | "failed"
+
+export type ImportRow = {
+  row: number
+  name: string
+  address: string
+  amount: string
+  schedule: string
+  interval: number
+  status: ImportRowStatus
+  issues: string[]
+  currentAmount?: string
+  currentSchedule?: string
+  submitStatus?: ImportSubmitStatus
+  submitError?: string
+}
+
+// Rows that will actually send a setPayrollSchedule transaction
+export const isImportable = (row: ImportRow) => row.status === "new" || row.status === "update"
+
+// Matches the wallet column's title in a header row
+const HEADER_ADDRESS_COLUMN = /wallet|address/i
+
+// Accepts "Bi-weekly", "biweekly", "bi_weekly" etc.
+function normalizeSchedule(value: string): string | null {
+  const key = value.toLowerCase().replace(/[\s_-]/g, "")
+  return Object.keys(PAYMENT_INTERVALS).find((label) => label.toLowerCase().replace("-", "") === key) ?? null
+}
+
+export function useEmployeeImport() {
+  const { account, isConnected } = useWeb3()
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [decimals, setDecimals] = useState(18)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const updateRow = (row: number, changes: Partial<ImportRow>) =>
+    setRows((current) => current.map((item) => (item.row === row ? { ...item, ...changes } : item)))
+
+  const preview = async (text: string) => {
+    if (!isConnected || !account) {
+      toast({
+        title: "Not Connected",
+        description: "Please connect your wallet first.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsPreviewing(true)
+    try {
+      const tokenDecimals = await getReadOnlyContracts().spayToken.decimals()
+      setDecimals(tokenDecimals)
+
+      const cells = parseCsv(text)
+      // Skip a header row such as "name,wallet,amount,schedule". A first employee with a
+      // mistyped address is not a header and must show up as an invalid row.
+      if (cells.length && HEADER_ADDRESS_COLUMN.test((cells[0][1] || "").trim())) {
+        cells.shift()
+      }
+
+      const seen = new Set<string>()
+      const parsed = cells.map((cell, index): ImportRow => {
+        const [name = "", address = "", amount = "", schedule = ""] = cell.map((value) => value.trim())
+        const normalizedSchedule = normalizeSchedule(schedule)
+        const issues: string[] = []
+
+        if (!name) issues.push("Missing name")
+        if (!ethers.utils.isAddress(address)) issues.push("Invalid wallet address")
+        try {
+          if (ethers.utils.parseUnits(amount, tokenDecimals).lte(0)) issues.push("Amount must be greater than 0")
+        } catch {
+          issues.push("Invalid amount")
+        }
+        if (!normalizedSchedule) issues.push(`Unknown schedule "${schedule}"`)
+
+        const isDuplicate = !issues.length && seen.has(address.toLowerCase())
+        if (!issues.length) seen.add(address.toLowerCase())
+
+        return {
+          row: index + 1,
+          name,
+          address: ethers.utils.isAddress(address) ? ethers.utils.getAddress(address) : address,
+          amount,
+          schedule: normalizedSchedule || schedule,
+          interval: normalizedSchedule ? PAYMENT_INTERVALS[normalizedSchedule] : 0,
+          status: issues.length ? "invalid" : isDuplicate ? "duplicate" : "new",
+          issues: isDuplicate ? ["Wallet appears earlier in the file"] : issues,
+        }
+      })
+
+      // Compare the remaining rows with what's already on chain
+      const candidates = parsed.filter((row) => row.status === "new")
+      for (let i = 0; i < candidates.length; i += PREVIEW_CHUNK_SIZE) {
+        await Promise.all(
+          candidates.slice(i, i + PREVIEW_CHUNK_SIZE).map(async (row) => {
+            const [check, schedule] = await Promise.all([
+              handleEmployeeRegistration(account, row),
+              getPayrollSchedule(row.address),
+            ])
+
+            if (!check.success) {
+              row.status = "invalid"
+              row.issues = [check.error || "Cannot add this employee"]
+              return
+            }
+            if (schedule.amount.isZero()) return
+
+            const amount = ethers.utils.parseUnits(row.amount, tokenDecimals)
+            const interval = schedule.paymentInterval.toNumber()
+            row.status = schedule.amount.eq(amount) && interval === row.interval ? "unchanged" : "update"
+            row.currentAmount = formatTokenAmount(schedule.amount, tokenDecimals)
+            row.currentSchedule = describeInterval(interval)
+          }),
+        )
+      }
+
+      setRows(parsed.map((row) => (isImportable(row) ? { ...row, submitStatus: "pending" } : row)))
+    } catch (error: any) {
+      console.error("Previewing employee import failed:", error)
+      toast({
+        title: "Import Failed",
+        description: error.message || "There was an error reading the CSV file.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  // Sends one setPayrollSchedule per row, in order, so a failure never blocks the rest
+  const submit = async (onlyFailed = false) => {
+    if (!account) return
+
+    const targets = rows.filter(
+      (row) => isImportable(row) && (onlyFailed ? row.submitStatus === "failed" : row.submitStatus !== "done"),
+    )
+    if (!targets.length) return
+
+    setIsSubmitting(true)
+    let failed = 0
+    try {
+      for (const row of targets) {
+        updateRow(row.row, { submitStatus: "submitting", submitError: undefined })
+        try {
+          await setPayrollScheduleOnChain(row.address, ethers.utils.parseUnits(row.amount, decimals), row.interval)
+          updateRow(row.row, { submitStatus: "done" })
+
+          await saveEmployeeProfile({ employer: account, employee: row.address, name: row.name }).catch((error) =>
+            console.error("Failed to save imported employee details:", error),
+          )
+        } catch (error) {
+          console.error(`Importing row ${row.row} failed:`, error)
+          failed++
+          updateRow(row.row, {
+            submitStatus: "failed",
+            submitError: getRevertReason(error) || "Transaction failed",
+          })
+        }
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+
+    if (failed) {
+      toast({
+        title: "Import Incomplete",
+        description: `${targets.length - failed} of ${targets.length} schedules set. Retry the failed rows to finish.`,
+        variant: "destructive",
+      })
+    } else {
+      toast({
+        title: "Import Complete",
+        description: `Set payroll schedules for ${targets.length} employees.`,
+      })
+    }
+  }
+
+  return {
+    rows,
+    preview,
+    submit: () => submit(false),
+    retryFailed: () => submit(true),
+    reset: () => setRows([]),
+    isPreviewing,
+    isSubmitting,
+  }
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { fetchClaimedInvitations, markInvitationApplied, type ClaimedInvitation } from "@/lib/employee-invitation"
+
+// Claims are posted after the employee's registration confirms, so poll rather than follow chain events
+const CLAIM_POLL_INTERVAL = 60_000
+
+// Invitations the connected employer's new hires claimed, whose agreed pay isn't scheduled yet
+export function useEmployeeInvitations() {
+  const { account, isConnected } = useWeb3()
+  const [claims, setClaims] = useState<ClaimedInvitation[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!isConnected || !account) {
+      setClaims([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      setClaims(await fetchClaimedInvitations(account))
+    } catch (error) {
+      console.error("Failed to load claimed invitations:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [account, isConnected])
+
+  useEffect(() => {
+    refresh()
+
+    if (!isConnected || !account) return
+
+    const timer = setInterval(refresh, CLAIM_POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [account, isConnected, refresh])
+
+  const markApplied = async (nonce: string) => {
+    if (!account) return
+    const updated = await markInvitationApplied(account, nonce)
+    setClaims((current) => current.map((claim) => (claim.invitation.nonce === nonce ? updated : claim)))
+  }
+
+  // Latest unapplied claim per employee, by lowercased address
+  const pendingByEmployee = Object.fromEntries(
+    claims.filter((claim) => !claim.appliedAt).map((claim) => [claim.claimant.toLowerCase(), claim]),
+  )
+
+  return { claims, pendingByEmployee, isLoading, refresh, markApplied }
+}
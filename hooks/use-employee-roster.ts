@@ -0,0 +1,100 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { getPayrollSchedule, getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { formatDate, formatTokenAmount } from "@/lib/utils"
+import { fetchEmployeeDirectory, type EmployeeDirectory } from "@/lib/employee-directory"
+import {
+  describeInterval,
+  fetchRosterAddresses,
+  type RosterEmployee,
+} from "@/lib/employee-roster"
+import { queryIndexedEvents } from "@/lib/event-index"
+
+export function useEmployeeRoster() {
+  const { account, isConnected } = useWeb3()
+  const [employees, setEmployees] = useState<RosterEmployee[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!isConnected || !account) {
+      setEmployees([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { spayToken } = getReadOnlyContracts()
+      const [addresses, disbursed, decimals] = await Promise.all([
+        fetchRosterAddresses(account),
+        queryIndexedEvents("payrollProcessor", "PayrollDisbursed", { employer: account }),
+        spayToken.decimals(),
+      ])
+
+      // Names live off-chain; the roster still renders from chain data if the directory is unavailable
+      const directory: EmployeeDirectory = await fetchEmployeeDirectory(account).catch((error) => {
+        console.error("Failed to load employee directory:", error)
+        return {}
+      })
+
+      const everPaid = new Set(disbursed.map((event) => event.args.employee.toLowerCase()))
+      const now = Math.floor(Date.now() / 1000)
+
+      const rows = await Promise.all(
+        addresses.map(async (address): Promise<RosterEmployee> => {
+          const schedule = await getPayrollSchedule(address)
+          const isScheduled = !schedule.amount.isZero()
+          const lastPaymentTimestamp = isScheduled ? schedule.lastPaymentTimestamp.toNumber() : null
+          const paymentInterval = schedule.paymentInterval.toNumber()
+          const nextPaymentTimestamp = lastPaymentTimestamp !== null ? lastPaymentTimestamp + paymentInterval : null
+
+          // setPayrollSchedule also stamps lastPaymentTimestamp, so only trust it once a payment happened
+          const hasBeenPaid = everPaid.has(address.toLowerCase())
+
+          const profile = directory[address.toLowerCase()]
+
+          return {
+            address,
+            name: profile?.name,
+            profile,
+            amount: formatTokenAmount(schedule.amount, decimals),
+            rawAmount: schedule.amount,
+            schedule: describeInterval(paymentInterval),
+            paymentInterval,
+            lastPaymentTimestamp,
+            nextPaymentTimestamp,
+            lastPaid: hasBeenPaid && lastPaymentTimestamp ? formatDate(lastPaymentTimestamp) : "Not yet paid",
+            status: !isScheduled ? "Not Scheduled" : now >= nextPaymentTimestamp! ? "Due" : "Active",
+          }
+        }),
+      )
+
+      setEmployees(rows)
+    } catch (error) {
+      console.error("Failed to load employee roster:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [account, isConnected])
+
+  useEffect(() => {
+    refresh()
+
+    if (!isConnected || !account) return
+
+    // Keep the roster current as this employer schedules and pays employees
+    const { payrollProcessor } = getReadOnlyContracts()
+    const filters = [
+      payrollProcessor.filters.PayrollScheduleSet(account, null),
+      payrollProcessor.filters.PayrollDisbursed(account, null),
+    ]
+    filters.forEach((filter) => payrollProcessor.on(filter, refresh))
+
+    return () => {
+      filters.forEach((filter) => payrollProcessor.off(filter, refresh))
+    }
+  }, [account, isConnected, refresh])
+
+  return { employees, isLoading, refresh }
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useMemo } from "react"
+import { ethers } from "ethers"
+import { useSPAYToken } from "@/hooks/use-spay-token"
+import { PAYMENT_INTERVALS, type RosterEmployee } from "@/lib/employee-roster"
+import type { PayrollHistoryEntry } from "@/lib/payroll-history"
+
+// Stats compare 30-day periods so employees on different schedules add up on one scale
+export const STATS_PERIOD = PAYMENT_INTERVALS.Monthly
+
+export type EmployerStats = {
+  employeeCount: number
+  scheduledCount: number
+  dueCount: number
+  // Scheduled gross payroll normalised to one period
+  periodPayroll: ethers.BigNumber
+  // Gross disbursed in the last period and the one before it
+  paidThisPeriod: ethers.BigNumber
+  paidLastPeriod: ethers.BigNumber
+  // Percent change in gross paid; null when there is nothing to compare against
+  periodChange: number | null
+  // One payment to every scheduled employee
+  cycleTotal: ethers.BigNumber
+  nextPayrollTimestamp: number | null
+  balance: ethers.BigNumber | null
+  decimals: number
+}
+
+// Dashboard stats for the connected employer from the roster and indexed PayrollDisbursed history
+export function useEmployerStats(employees: RosterEmployee[], history: PayrollHistoryEntry[]): EmployerStats {
+  const spayToken = useSPAYToken()
+
+  return useMemo(() => {
+    const now = Math.floor(Date.now() / 1000)
+    const scheduled = employees.filter((employee) => employee.status !== "Not Scheduled")
+
+    const periodPayroll = scheduled
+      .filter((employee) => employee.paymentInterval > 0)
+      .reduce((total, employee) => total.add(employee.rawAmount.mul(STATS_PERIOD).div(employee.paymentInterval)), ethers.constants.Zero)
+
+    const paidBetween = (from: number, to: number) =>
+      history
+        .filter((entry) => entry.timestamp > from && entry.timestamp <= to)
+        .reduce((total, entry) => total.add(entry.grossAmount), ethers.constants.Zero)
+    const paidThisPeriod = paidBetween(now - STATS_PERIOD, now)
+    const paidLastPeriod = paidBetween(now - 2 * STATS_PERIOD, now - STATS_PERIOD)
+
+    // Basis-point precision keeps the division in BigNumber before converting to a percent
+    const periodChange = paidLastPeriod.isZero()
+      ? null
+      : paidThisPeriod.sub(paidLastPeriod).mul(10000).div(paidLastPeriod).toNumber() / 100
+
+    const nextPayrollTimestamp = scheduled.reduce<number | null>(
+      (earliest, employee) =>
+        employee.nextPaymentTimestamp !== null && (earliest === null || employee.nextPaymentTimestamp < earliest)
+          ? employee.nextPaymentTimestamp
+          : earliest,
+      null,
+    )
+
+    return {
+      employeeCount: employees.length,
+      scheduledCount: scheduled.length,
+      dueCount: employees.filter((employee) => employee.status === "Due").length,
+      periodPayroll,
+      paidThisPeriod,
+      paidLastPeriod,
+      periodChange,
+      cycleTotal: scheduled.reduce((total, employee) => total.add(employee.rawAmount), ethers.constants.Zero),
+      nextPayrollTimestamp,
+      balance: spayToken?.rawBalance ?? null,
+      decimals: spayToken?.decimals ?? 18,
+    }
+  }, [employees, history, spayToken])
+}
@@ -1,16 +1,37 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { ethers } from "ethers"
 import { useWeb3 } from "@/providers/web3-provider"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { formatTokenAmount, formatUSDAmount } from "@/lib/utils"
+
+type AssetHolding = {
+  amount: string
+  value: string
+}
 
 type ETFTokenData = {
   balance: string
+  rawBalance: ethers.BigNumber
   etfPrice: string
+  usdValue: string
+  annualYield: string
   composition: {
     gold: number
     btc: number
     eth: number
   }
+  prices: {
+    gold: string
+    btc: string
+    eth: string
+  }
+  holdings: {
+    gold: AssetHolding
+    btc: AssetHolding
+    eth: AssetHolding
+  }
 }
 
 export function useETFToken(): ETFTokenData | null {
@@ -18,20 +39,90 @@ export function useETFToken(): ETFTokenData | null {
   const [tokenData, setTokenData] = useState<ETFTokenData | null>(null)
 
   useEffect(() => {
-    if (isConnected && account) {
-      // For demo purposes, we'll return mock data
-      // In a real implementation, this would fetch data from the blockchain
-      setTokenData({
-        balance: "100",
-        etfPrice: "$1.02",
-        composition: {
-          gold: 50,
-          btc: 25,
-          eth: 25,
-        },
-      })
-    } else {
+    if (!isConnected || !account) {
       setTokenData(null)
+      return
+    }
+
+    const { etfToken } = getReadOnlyContracts()
+    let cancelled = false
+
+    const fetchTokenData = async () => {
+      try {
+        const [
+          rawBalance,
+          decimals,
+          etfPrice,
+          annualYieldBps,
+          goldPercentage,
+          btcPercentage,
+          ethPercentage,
+          goldPrice,
+          btcPrice,
+          ethPrice,
+        ] = await Promise.all([
+          etfToken.balanceOf(account),
+          etfToken.decimals(),
+          etfToken.getETFPriceUSD(),
+          etfToken.annualYieldBps(),
+          etfToken.GOLD_PERCENTAGE(),
+          etfToken.BTC_PERCENTAGE(),
+          etfToken.ETH_PERCENTAGE(),
+          etfToken.goldPriceUSD(),
+          etfToken.btcPriceUSD(),
+          etfToken.ethPriceUSD(),
+        ])
+        if (cancelled) return
+
+        const unit = ethers.BigNumber.from(10).pow(decimals)
+        const usdValue: ethers.BigNumber = rawBalance.mul(etfPrice).div(unit)
+
+        // Split the position by the ETF's fixed allocation percentages
+        const holding = (percentage: number): AssetHolding => ({
+          amount: formatTokenAmount(rawBalance.mul(percentage).div(100), decimals),
+          value: formatUSDAmount(usdValue.mul(percentage).div(100)),
+        })
+
+        setTokenData({
+          balance: formatTokenAmount(rawBalance, decimals),
+          rawBalance,
+          etfPrice: formatUSDAmount(etfPrice),
+          usdValue: formatUSDAmount(usdValue),
+          annualYield: `${(annualYieldBps.toNumber() / 100).toFixed(1)}% APY`,
+          composition: {
+            gold: goldPercentage,
+            btc: btcPercentage,
+            eth: ethPercentage,
+          },
+          prices: {
+            gold: formatUSDAmount(goldPrice),
+            btc: formatUSDAmount(btcPrice),
+            eth: formatUSDAmount(ethPrice),
+          },
+          holdings: {
+            gold: holding(goldPercentage),
+            btc: holding(btcPercentage),
+            eth: holding(ethPercentage),
+          },
+        })
+      } catch (error) {
+        console.error("Failed to fetch ETF token data:", error)
+      }
+    }
+
+    fetchTokenData()
+
+    // Re-price on oracle updates and refresh the balance on transfers
+    const filters = [
+      etfToken.filters.PricesUpdated(),
+      etfToken.filters.Transfer(account, null),
+      etfToken.filters.Transfer(null, account),
+    ]
+    filters.forEach((filter) => etfToken.on(filter, fetchTokenData))
+
+    return () => {
+      cancelled = true
+      filters.forEach((filter) => etfToken.off(filter, fetchTokenData))
     }
   }, [account, isConnected])
 
@@ -1,12 +1,30 @@
 "use client"
 
 import { useState } from "react"
+import { ethers } from "ethers"
 import { useWeb3 } from "@/providers/web3-provider"
 import { toast } from "@/components/ui/use-toast"
+import { CONTRACT_ADDRESSES } from "@/config/blockchain"
+import {
+  ensureSPAYAllowance,
+  getReadOnlyContracts,
+  getRevertReason,
+  investInETF,
+  withdrawInvestment,
+} from "@/WEB3/blockchainIntergation"
+import { formatTokenAmount } from "@/lib/utils"
+
+export type InvestmentResult = {
+  type: "invest" | "withdraw"
+  spayAmount: string
+  etfAmount: string
+  txHash: string
+}
 
 export function useInvestmentManager() {
   const { isConnected } = useWeb3()
   const [isInvesting, setIsInvesting] = useState(false)
+  const [lastResult, setLastResult] = useState<InvestmentResult | null>(null)
 
   const invest = async (amount: string) => {
     if (!isConnected) {
@@ -20,21 +38,40 @@ export function useInvestmentManager() {
 
     setIsInvesting(true)
     try {
-      // For demo purposes, we'll just show a success toast
-      // In a real implementation, this would call the contract
-      await new Promise((resolve) => setTimeout(resolve, 2000))
+      const { spayToken, etfToken } = getReadOnlyContracts()
+      const [spayDecimals, etfDecimals] = await Promise.all([spayToken.decimals(), etfToken.decimals()])
+      const spayAmount = ethers.utils.parseUnits(amount, spayDecimals)
+
+      // InvestmentManager pulls SPAY with transferFrom, so it needs an allowance first
+      const approval = await ensureSPAYAllowance(CONTRACT_ADDRESSES.INVESTMENT_MANAGER, spayAmount)
+      if (approval) {
+        toast({
+          title: "SPAY Approved",
+          description: "Approval confirmed. Please confirm the investment in your wallet.",
+        })
+      }
+
+      const receipt = await investInETF(spayAmount)
+      const event = receipt.events?.find((e: ethers.Event) => e.event === "InvestmentMade")
+      const result: InvestmentResult = {
+        type: "invest",
+        spayAmount: formatTokenAmount(event?.args?.spayAmount ?? spayAmount, spayDecimals),
+        etfAmount: event ? formatTokenAmount(event.args?.etfAmount, etfDecimals, 4) : "0",
+        txHash: receipt.transactionHash,
+      }
+      setLastResult(result)
 
       toast({
         title: "Investment Successful",
-        description: `Successfully invested ${amount} SPAY in ETF tokens.`,
+        description: `Invested ${result.spayAmount} SPAY and received ${result.etfAmount} ETF tokens.`,
       })
 
-      return true
+      return result
     } catch (error) {
       console.error("Investment failed:", error)
       toast({
         title: "Investment Failed",
-        description: "There was an error processing your investment.",
+        description: getRevertReason(error) || "There was an error processing your investment.",
         variant: "destructive",
       })
       return false
@@ -55,21 +92,31 @@ export function useInvestmentManager() {
 
     setIsInvesting(true)
     try {
-      // For demo purposes, we'll just show a success toast
-      // In a real implementation, this would call the contract
-      await new Promise((resolve) => setTimeout(resolve, 2000))
+      const { spayToken, etfToken } = getReadOnlyContracts()
+      const [spayDecimals, etfDecimals] = await Promise.all([spayToken.decimals(), etfToken.decimals()])
+      const etfAmount = ethers.utils.parseUnits(amount, etfDecimals)
+
+      const receipt = await withdrawInvestment(etfAmount)
+      const event = receipt.events?.find((e: ethers.Event) => e.event === "InvestmentWithdrawn")
+      const result: InvestmentResult = {
+        type: "withdraw",
+        spayAmount: event ? formatTokenAmount(event.args?.spayAmount, spayDecimals) : "0",
+        etfAmount: formatTokenAmount(event?.args?.etfAmount ?? etfAmount, etfDecimals, 4),
+        txHash: receipt.transactionHash,
+      }
+      setLastResult(result)
 
       toast({
         title: "Withdrawal Successful",
-        description: `Successfully withdrew ${amount} ETF tokens.`,
+        description: `Burned ${result.etfAmount} ETF tokens and received ${result.spayAmount} SPAY.`,
       })
 
-      return true
+      return result
     } catch (error) {
       console.error("Withdrawal failed:", error)
       toast({
         title: "Withdrawal Failed",
-        description: "There was an error processing your withdrawal.",
+        description: getRevertReason(error) || "There was an error processing your withdrawal.",
         variant: "destructive",
       })
       return false
@@ -82,5 +129,6 @@ export function useInvestmentManager() {
     invest,
     withdraw,
     isInvesting,
+    lastResult,
   }
 }
@@ -0,0 +1,51 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { fetchPayrollHistory, type PayrollHistoryEntry } from "@/lib/payroll-history"
+
+// Payroll disbursements made by the connected employer, newest first
+export function usePayrollHistory() {
+  const { account, isConnected } = useWeb3()
+  const [entries, setEntries] = useState<PayrollHistoryEntry[]>([])
+  const [decimals, setDecimals] = useState(18)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!isConnected || !account) {
+      setEntries([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const [history, tokenDecimals] = await Promise.all([
+        fetchPayrollHistory({ employer: account }),
+        getReadOnlyContracts().spayToken.decimals(),
+      ])
+      setEntries(history)
+      setDecimals(tokenDecimals)
+    } catch (error) {
+      console.error("Failed to load payroll history:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [account, isConnected])
+
+  useEffect(() => {
+    refresh()
+
+    if (!isConnected || !account) return
+
+    const { payrollProcessor } = getReadOnlyContracts()
+    const filter = payrollProcessor.filters.PayrollDisbursed(account, null)
+    payrollProcessor.on(filter, refresh)
+
+    return () => {
+      payrollProcessor.off(filter, refresh)
+    }
+  }, [account, isConnected, refresh])
+
+  return { entries, decimals, isLoading, refresh }
+}
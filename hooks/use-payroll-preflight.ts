@@ -0,0 +1,90 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ethers } from "ethers"
+import { useWeb3 } from "@/providers/web3-provider"
+import { toast } from "@/components/ui/use-toast"
+import { ensureSPAYAllowance, getRevertReason, verifyUser } from "@/WEB3/blockchainIntergation"
+import { CONTRACT_ADDRESSES } from "@/config/blockchain"
+import { fetchPayrollPreflight, type PayrollPreflight } from "@/lib/payroll-preflight"
+import { formatTokenAmount } from "@/lib/utils"
+
+// Pre-flight state for paying `employees`, plus the one-click fixes the panel offers.
+// Only loads while `enabled`, so the checks run when the panel opens rather than on every render.
+export function usePayrollPreflight(employees: string[], enabled: boolean) {
+  const { account, isConnected, formatAddress } = useWeb3()
+  const [preflight, setPreflight] = useState<PayrollPreflight | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isFixing, setIsFixing] = useState(false)
+
+  const employeesKey = employees.join(",")
+
+  const refresh = useCallback(async () => {
+    if (!enabled || !isConnected || !account) {
+      setPreflight(null)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      setPreflight(await fetchPayrollPreflight(account, employeesKey ? employeesKey.split(",") : []))
+    } catch (error) {
+      console.error("Payroll pre-flight failed:", error)
+      toast({
+        title: "Pre-flight Failed",
+        description: "Could not read payroll state from the chain.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [account, isConnected, enabled, employeesKey])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const approve = async (amount: ethers.BigNumber) => {
+    setIsFixing(true)
+    try {
+      await ensureSPAYAllowance(CONTRACT_ADDRESSES.PAYROLL_PROCESSOR, amount)
+      toast({
+        title: "SPAY Approved",
+        description: `PayrollProcessor can now spend ${formatTokenAmount(amount, preflight?.decimals)} SPAY.`,
+      })
+      await refresh()
+    } catch (error) {
+      console.error("Approving SPAY failed:", error)
+      toast({
+        title: "Approval Failed",
+        description: getRevertReason(error) || "There was an error approving SPAY.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsFixing(false)
+    }
+  }
+
+  const verify = async (address: string) => {
+    setIsFixing(true)
+    try {
+      await verifyUser(address)
+      toast({
+        title: "Address Verified",
+        description: `${formatAddress(address)} is now KYC-verified for SPAY.`,
+      })
+      await refresh()
+    } catch (error) {
+      console.error("Verifying address failed:", error)
+      toast({
+        title: "Verification Failed",
+        description: getRevertReason(error) || "There was an error verifying the address.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsFixing(false)
+    }
+  }
+
+  return { preflight, isLoading, isFixing, refresh, approve, verify }
+}
@@ -4,17 +4,23 @@ import { useState } from "react"
 import { useWeb3 } from "@/providers/web3-provider"
 import { toast } from "@/components/ui/use-toast"
 import { ethers } from "ethers"
-import RoleManagerABI from "@/WEB3/abis/RoleManager.json"
-import PayrollProcessorABI from "@/WEB3/abis/PayrollProcessor.json"
-import { CONTRACT_ADDRESSES } from "@/config/blockchain"
-const  ROLE_MANAGER_CONTRACT = CONTRACT_ADDRESSES.ROLE_MANAGER_CONTRACT
-const PAYROLL_PROCESSOR = CONTRACT_ADDRESSES.PAYROLL_PROCESSOR
+import {
+  getPayrollSchedule,
+  getReadOnlyContracts,
+  getRevertReason,
+  processBatchPayroll,
+  setPayrollSchedule as setPayrollScheduleOnChain,
+} from "@/WEB3/blockchainIntergation"
+import { disbursePayrollBatches, type PayrollRunResult, type SkippedPayroll } from "@/lib/payroll-disbursement"
+import { formatDate } from "@/lib/utils"
+
+export type { PayrollDisbursement, PayrollRunResult, SkippedPayroll } from "@/lib/payroll-disbursement"
 
 export function usePayrollProcessor() {
-  const { isConnected } = useWeb3()
+  const { isConnected, formatAddress } = useWeb3()
   const [isProcessing, setIsProcessing] = useState(false)
 
-  const processPayroll = async (employees: string[]) => {
+  const processPayroll = async (employees: string[]): Promise<PayrollRunResult | false | undefined> => {
     if (!isConnected) {
       toast({
         title: "Not Connected",
@@ -26,21 +32,51 @@ export function usePayrollProcessor() {
 
     setIsProcessing(true)
     try {
-      // For demo purposes, we'll just show a success toast
-      // In a real implementation, this would call the contract
-      await new Promise((resolve) => setTimeout(resolve, 2000))
+      const { provider, spayToken } = getReadOnlyContracts()
+      const [decimals, latestBlock] = await Promise.all([spayToken.decimals(), provider.getBlock("latest")])
+      const skipped: SkippedPayroll[] = []
 
-      toast({
-        title: "Payroll Processed",
-        description: `Successfully processed payroll for ${employees.length} employees.`,
-      })
+      // Work out who is due up front so employees whose interval hasn't elapsed are
+      // reported as skipped rather than sent to the contract
+      const due: string[] = []
+      for (const employee of employees) {
+        if (!ethers.utils.isAddress(employee)) {
+          skipped.push({ employee, reason: "Invalid wallet address" })
+          continue
+        }
+        const schedule = await getPayrollSchedule(employee)
+        const nextPayment = schedule.lastPaymentTimestamp.add(schedule.paymentInterval).toNumber()
+        if (schedule.amount.isZero()) {
+          skipped.push({ employee, reason: "No payroll scheduled" })
+        } else if (latestBlock.timestamp < nextPayment) {
+          skipped.push({ employee, reason: `Not due until ${formatDate(nextPayment)}` })
+        } else {
+          due.push(employee)
+        }
+      }
 
-      return true
+      const disbursement = await disbursePayrollBatches(due, decimals, processBatchPayroll)
+      const result: PayrollRunResult = { ...disbursement, skipped: [...skipped, ...disbursement.skipped] }
+
+      if (result.failed.length > 0) {
+        toast({
+          title: "Payroll Partially Failed",
+          description: `Paid ${result.disbursed.length} employees; ${result.failed.length} failed and ${result.skipped.length} were skipped.`,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Payroll Processed",
+          description: `Paid ${result.disbursed.length} employees; ${result.skipped.length} were skipped.`,
+        })
+      }
+
+      return result
     } catch (error) {
       console.error("Processing payroll failed:", error)
       toast({
         title: "Payroll Failed",
-        description: "There was an error processing the payroll.",
+        description: getRevertReason(error) || "There was an error processing the payroll.",
         variant: "destructive",
       })
       return false
@@ -61,22 +97,14 @@ export function usePayrollProcessor() {
 
     setIsProcessing(true)
     try {
-      const provider = new ethers.providers.Web3Provider(window.ethereum)
-      const signer = await provider.getSigner()
-
-      // First register the employee role
-      const roleManager = new ethers.Contract(ROLE_MANAGER_CONTRACT, RoleManagerABI, signer)
-      const registerTx = await roleManager.registerAsEmployee(await signer.getAddress())
-      await registerTx.wait()
+      const { spayToken } = getReadOnlyContracts()
+      const spayAmount = ethers.utils.parseUnits(amount, await spayToken.decimals())
 
-      // Then set up their payroll schedule
-      const payrollProcessor = new ethers.Contract(PAYROLL_PROCESSOR, PayrollProcessorABI, signer)
-      const scheduleTx = await payrollProcessor.setEmployeePayroll(employee, ethers.utils.parseEther(amount), interval)
-      await scheduleTx.wait()
+      await setPayrollScheduleOnChain(employee, spayAmount, Number(interval))
 
       toast({
-        title: "Employee Added",
-        description: "Successfully registered employee and set up payroll schedule.",
+        title: "Payroll Scheduled",
+        description: `Set a payroll of ${amount} SPAY for ${formatAddress(employee)}.`,
       })
 
       return true
@@ -84,7 +112,7 @@ export function usePayrollProcessor() {
       console.error("Setting payroll schedule failed:", error)
       toast({
         title: "Schedule Failed",
-        description: "There was an error setting the payroll schedule.",
+        description: getRevertReason(error) || "There was an error setting the payroll schedule.",
         variant: "destructive",
       })
       return false
@@ -0,0 +1,50 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { fetchPayrollSchedulerStatus, type ScheduledPayrollRun } from "@/lib/payroll-runs"
+
+// Whether the server-side scheduler pays the connected employer's payroll, and its recent runs
+export function usePayrollScheduler() {
+  const { account, isConnected } = useWeb3()
+  const [automated, setAutomated] = useState(false)
+  const [runs, setRuns] = useState<ScheduledPayrollRun[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!isConnected || !account) {
+      setAutomated(false)
+      setRuns([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const status = await fetchPayrollSchedulerStatus(account)
+      setAutomated(status.automated)
+      setRuns(status.runs)
+    } catch (error) {
+      console.error("Failed to load payroll scheduler status:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [account, isConnected])
+
+  useEffect(() => {
+    refresh()
+
+    if (!isConnected || !account) return
+
+    // A scheduled run shows up on chain as a disbursement from this employer
+    const { payrollProcessor } = getReadOnlyContracts()
+    const filter = payrollProcessor.filters.PayrollDisbursed(account, null)
+    payrollProcessor.on(filter, refresh)
+
+    return () => {
+      payrollProcessor.off(filter, refresh)
+    }
+  }, [account, isConnected, refresh])
+
+  return { automated, runs, lastRun: runs[0] as ScheduledPayrollRun | undefined, isLoading, refresh }
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { toast } from "@/components/ui/use-toast"
+import {
+  getPayrollRates,
+  getReadOnlyContracts,
+  getRevertReason,
+  updateFeeRate,
+  updateTaxRate,
+} from "@/WEB3/blockchainIntergation"
+import {
+  defaultEmployerSettings,
+  fetchEmployerSettings,
+  saveEmployerSettings,
+  type EmployerSettings,
+} from "@/lib/employer-settings"
+import { formatBps } from "@/lib/utils"
+
+// Upper bounds enforced by PayrollProcessor.updateTaxRate/updateFeeRate
+export const MAX_TAX_RATE_BPS = 5000
+export const MAX_FEE_RATE_BPS = 500
+
+export type PayrollRates = { taxRateBps: number; feeRateBps: number }
+
+// On-chain tax/fee rates (editable by PayrollProcessor admins) and the employer's off-chain defaults
+export function usePayrollSettings() {
+  const { account, isConnected } = useWeb3()
+  const [rates, setRates] = useState<PayrollRates | null>(null)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [settings, setSettings] = useState<EmployerSettings | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setRates(await getPayrollRates())
+    } catch (error) {
+      console.error("Failed to load payroll rates:", error)
+    }
+
+    if (!isConnected || !account) {
+      setIsAdmin(false)
+      setSettings(null)
+      return
+    }
+
+    const { payrollProcessor } = getReadOnlyContracts()
+    const [admin, stored] = await Promise.all([
+      payrollProcessor
+        .DEFAULT_ADMIN_ROLE()
+        .then((adminRole: string) => payrollProcessor.hasRole(adminRole, account))
+        .catch((error: unknown) => {
+          console.error("Failed to check PayrollProcessor admin role:", error)
+          return false
+        }),
+      // Defaults still apply if the settings store is unavailable
+      fetchEmployerSettings(account).catch((error) => {
+        console.error("Failed to load employer settings:", error)
+        return defaultEmployerSettings(account)
+      }),
+    ])
+    setIsAdmin(admin)
+    setSettings(stored)
+  }, [account, isConnected])
+
+  useEffect(() => {
+    refresh()
+
+    // Rates are protocol-wide, so pick up changes made by any admin
+    const { payrollProcessor } = getReadOnlyContracts()
+    const events = ["TaxRateUpdated", "FeeRateUpdated"]
+    events.forEach((event) => payrollProcessor.on(event, refresh))
+
+    return () => {
+      events.forEach((event) => payrollProcessor.off(event, refresh))
+    }
+  }, [refresh])
+
+  // Sends only the rates that changed; returns whether everything requested was applied
+  const saveRates = async (next: PayrollRates): Promise<boolean> => {
+    if (!rates || !isAdmin) return false
+
+    if (!Number.isInteger(next.taxRateBps) || next.taxRateBps < 0 || next.taxRateBps > MAX_TAX_RATE_BPS) {
+      toast({
+        title: "Invalid Tax Rate",
+        description: `Tax rate must be between 0% and ${formatBps(MAX_TAX_RATE_BPS)}.`,
+        variant: "destructive",
+      })
+      return false
+    }
+    if (!Number.isInteger(next.feeRateBps) || next.feeRateBps < 0 || next.feeRateBps > MAX_FEE_RATE_BPS) {
+      toast({
+        title: "Invalid Fee Rate",
+        description: `Fee rate must be between 0% and ${formatBps(MAX_FEE_RATE_BPS)}.`,
+        variant: "destructive",
+      })
+      return false
+    }
+
+    setIsSaving(true)
+    try {
+      if (next.taxRateBps !== rates.taxRateBps) {
+        await updateTaxRate(next.taxRateBps)
+        toast({ title: "Tax Rate Updated", description: `Tax withholding is now ${formatBps(next.taxRateBps)}.` })
+      }
+      if (next.feeRateBps !== rates.feeRateBps) {
+        await updateFeeRate(next.feeRateBps)
+        toast({ title: "Fee Rate Updated", description: `The platform fee is now ${formatBps(next.feeRateBps)}.` })
+      }
+      return true
+    } catch (error) {
+      console.error("Updating payroll rates failed:", error)
+      toast({
+        title: "Rate Update Failed",
+        description: getRevertReason(error) || "There was an error updating the payroll rates.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSaving(false)
+      await refresh()
+    }
+  }
+
+  const saveSettings = async (next: EmployerSettings): Promise<boolean> => {
+    setIsSaving(true)
+    try {
+      setSettings(await saveEmployerSettings(next))
+      toast({ title: "Settings Saved", description: "Your payroll defaults have been updated." })
+      return true
+    } catch (error: any) {
+      console.error("Saving employer settings failed:", error)
+      toast({
+        title: "Settings Not Saved",
+        description: error.message,
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return { rates, isAdmin, settings, isSaving, refresh, saveRates, saveSettings }
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWeb3 } from "@/providers/web3-provider"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { fetchPayslips, type Payslip } from "@/lib/payslips"
+
+// Payslips for the connected employee, newest first
+export function usePayslips() {
+  const { account, isConnected } = useWeb3()
+  const [payslips, setPayslips] = useState<Payslip[]>([])
+  const [decimals, setDecimals] = useState(18)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!isConnected || !account) {
+      setPayslips([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const [slips, tokenDecimals] = await Promise.all([
+        fetchPayslips(account),
+        getReadOnlyContracts().spayToken.decimals(),
+      ])
+      setPayslips(slips)
+      setDecimals(tokenDecimals)
+    } catch (error) {
+      console.error("Failed to load payslips:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [account, isConnected])
+
+  useEffect(() => {
+    refresh()
+
+    if (!isConnected || !account) return
+
+    // A new payslip appears as soon as the employer runs payroll
+    const { payrollProcessor } = getReadOnlyContracts()
+    const filter = payrollProcessor.filters.PayrollDisbursed(null, account)
+    payrollProcessor.on(filter, refresh)
+
+    return () => {
+      payrollProcessor.off(filter, refresh)
+    }
+  }, [account, isConnected, refresh])
+
+  return { payslips, decimals, isLoading, refresh }
+}
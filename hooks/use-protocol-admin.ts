@@ -0,0 +1,175 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ethers } from "ethers"
+import { useWeb3 } from "@/providers/web3-provider"
+import { useContractStatus } from "@/providers/contract-status-provider"
+import { toast } from "@/components/ui/use-toast"
+import { getRevertReason } from "@/WEB3/blockchainIntergation"
+import {
+  grantRole,
+  grantRoleToMany,
+  pauseContract,
+  revokeRole,
+  revokeRoleFromMany,
+  unpauseContract,
+  type ProtocolContractName,
+} from "@/WEB3/roleAuthentication"
+import {
+  PROTOCOL_CONTRACT_LABELS,
+  fetchAdminContracts,
+  fetchRoleHolders,
+  roleHash,
+  roleName,
+  type RoleHolder,
+} from "@/lib/protocol-roles"
+
+export type RoleChange = "grant" | "revoke"
+
+// Role holders across every protocol contract, plus the shared pause state, for DEFAULT_ADMIN_ROLE/ADMIN_ROLE holders
+export function useProtocolAdmin() {
+  const { account, isConnected } = useWeb3()
+  const [holders, setHolders] = useState<RoleHolder[]>([])
+  const { statuses, refresh: refreshStatuses } = useContractStatus()
+  // Contracts on which the connected account can grant and revoke roles; null while checking
+  const [adminOf, setAdminOf] = useState<ProtocolContractName[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const refreshAccess = useCallback(async () => {
+    if (!isConnected || !account) {
+      setAdminOf([])
+      return
+    }
+
+    setAdminOf(await fetchAdminContracts(account))
+  }, [account, isConnected])
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [nextHolders] = await Promise.all([fetchRoleHolders(), refreshStatuses()])
+      setHolders(nextHolders)
+    } catch (error) {
+      console.error("Failed to load protocol roles:", error)
+      toast({
+        title: "Failed to Load Roles",
+        description: "Role holders could not be read from the chain.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [refreshStatuses])
+
+  useEffect(() => {
+    setAdminOf(null)
+    refreshAccess()
+  }, [refreshAccess])
+
+  useEffect(() => {
+    if (adminOf?.length) refresh()
+  }, [adminOf, refresh])
+
+  // Grants or revokes one role for many accounts; RoleManager does it in a single transaction,
+  // the other contracts only expose the single-account calls so those are sent one by one
+  const changeRole = async (
+    change: RoleChange,
+    contract: ProtocolContractName,
+    role: string,
+    accounts: string[],
+  ): Promise<boolean> => {
+    if (!isConnected) {
+      toast({
+        title: "Not Connected",
+        description: "Please connect your wallet first.",
+        variant: "destructive",
+      })
+      return false
+    }
+    if (accounts.length === 0) return false
+
+    // Accepts a role name from CONTRACT_ROLES or a raw role hash from the holder list
+    const roleId = ethers.utils.isHexString(role, 32) ? role : roleHash(role)
+    const name = roleName(roleId)
+    const label = PROTOCOL_CONTRACT_LABELS[contract]
+    const verb = change === "grant" ? "granted" : "revoked"
+
+    setIsSubmitting(true)
+    try {
+      if (contract === "roleManager" && accounts.length > 1) {
+        await (change === "grant" ? grantRoleToMany(roleId, accounts) : revokeRoleFromMany(roleId, accounts))
+      } else {
+        for (const target of accounts) {
+          await (change === "grant" ? grantRole(roleId, target, contract) : revokeRole(roleId, target, contract))
+        }
+      }
+
+      toast({
+        title: change === "grant" ? "Role Granted" : "Role Revoked",
+        description: `${name} ${verb} on ${label} for ${accounts.length} ${accounts.length === 1 ? "account" : "accounts"}.`,
+      })
+      return true
+    } catch (error) {
+      console.error(`Failed to ${change} ${name} on ${contract}:`, error)
+      toast({
+        title: change === "grant" ? "Grant Failed" : "Revoke Failed",
+        description: getRevertReason(error) || `There was an error updating ${name} on ${label}.`,
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSubmitting(false)
+      // The wallet may have changed its own access; reloading it also reloads the holders
+      await refreshAccess()
+    }
+  }
+
+  const setContractPaused = async (contract: ProtocolContractName, pause: boolean): Promise<boolean> => {
+    if (!isConnected) {
+      toast({
+        title: "Not Connected",
+        description: "Please connect your wallet first.",
+        variant: "destructive",
+      })
+      return false
+    }
+
+    const label = PROTOCOL_CONTRACT_LABELS[contract]
+    setIsSubmitting(true)
+    try {
+      await (pause ? pauseContract(contract) : unpauseContract(contract))
+      toast({
+        title: pause ? "Contract Paused" : "Contract Unpaused",
+        description: `${label} is now ${pause ? "paused" : "active"}.`,
+      })
+      return true
+    } catch (error) {
+      console.error(`Failed to ${pause ? "pause" : "unpause"} ${contract}:`, error)
+      toast({
+        title: pause ? "Pause Failed" : "Unpause Failed",
+        description: getRevertReason(error) || `Make sure your wallet holds PAUSER_ROLE on ${label}.`,
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSubmitting(false)
+      await refreshStatuses()
+    }
+  }
+
+  return {
+    holders,
+    statuses,
+    adminOf,
+    isAdmin: !!adminOf?.length,
+    isLoading,
+    isSubmitting,
+    refresh,
+    grant: (contract: ProtocolContractName, role: string, accounts: string[]) =>
+      changeRole("grant", contract, role, accounts),
+    revoke: (contract: ProtocolContractName, role: string, accounts: string[]) =>
+      changeRole("revoke", contract, role, accounts),
+    setContractPaused,
+  }
+}
@@ -1,12 +1,102 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect, useCallback } from "react"
+import { ethers } from "ethers"
 import { useWeb3 } from "@/providers/web3-provider"
 import { toast } from "@/components/ui/use-toast"
+import { CONTRACT_ADDRESSES } from "@/config/blockchain"
+import {
+  ensureSPAYAllowance,
+  getReadOnlyContracts,
+  getRevertReason,
+  lockSavings as lockSavingsOnChain,
+  withdrawSavings as withdrawSavingsOnChain,
+} from "@/WEB3/blockchainIntergation"
+import { formatDate, formatDuration, formatTokenAmount } from "@/lib/utils"
+
+type SavingsData = {
+  amount: string
+  rawAmount: ethers.BigNumber
+  unlockTime: number | null
+  lockPeriod: number
+  remainingLockTime: number
+}
+
+// Turns a SavingsManager revert into something an employee can act on
+function explainSavingsError(error: unknown, fallback: string): string {
+  const reason = getRevertReason(error)
+  if (reason === "Savings still locked") {
+    return "Your savings are still within the lock period. You can withdraw once the countdown reaches zero."
+  }
+  if (reason === "No savings to withdraw") {
+    return "You don't have any locked savings to withdraw."
+  }
+  return reason || fallback
+}
 
 export function useSavingsManager() {
-  const { isConnected } = useWeb3()
+  const { account, isConnected } = useWeb3()
   const [isProcessing, setIsProcessing] = useState(false)
+  const [savings, setSavings] = useState<SavingsData | null>(null)
+
+  const refreshSavings = useCallback(async () => {
+    if (!isConnected || !account) {
+      setSavings(null)
+      return
+    }
+
+    try {
+      const { spayToken, savingsManager } = getReadOnlyContracts()
+      const [userSavings, lockPeriod, remainingLockTime, decimals] = await Promise.all([
+        savingsManager.userSavings(account),
+        savingsManager.lockPeriod(),
+        savingsManager.getRemainingLockTime(account),
+        spayToken.decimals(),
+      ])
+
+      setSavings({
+        amount: formatTokenAmount(userSavings.amount, decimals),
+        rawAmount: userSavings.amount,
+        unlockTime: userSavings.unlockTime.isZero() ? null : userSavings.unlockTime.toNumber(),
+        lockPeriod: lockPeriod.toNumber(),
+        remainingLockTime: remainingLockTime.toNumber(),
+      })
+    } catch (error) {
+      console.error("Failed to fetch savings:", error)
+    }
+  }, [account, isConnected])
+
+  useEffect(() => {
+    refreshSavings()
+
+    if (!isConnected || !account) return
+
+    // Re-sync with the contract whenever this account locks or withdraws
+    const { savingsManager } = getReadOnlyContracts()
+    const filters = [savingsManager.filters.SavingsLocked(account), savingsManager.filters.SavingsWithdrawn(account)]
+    filters.forEach((filter) => savingsManager.on(filter, refreshSavings))
+
+    return () => {
+      filters.forEach((filter) => savingsManager.off(filter, refreshSavings))
+    }
+  }, [account, isConnected, refreshSavings])
+
+  // Tick the countdown locally between chain reads
+  const isCountingDown = !!savings && savings.remainingLockTime > 0
+  useEffect(() => {
+    if (!isCountingDown) return
+
+    const timer = setInterval(() => {
+      setSavings((current) =>
+        current ? { ...current, remainingLockTime: Math.max(current.remainingLockTime - 1, 0) } : current,
+      )
+    }, 1000)
+
+    return () => clearInterval(timer)
+  }, [isCountingDown])
+
+  const lockDays = savings ? Math.round(savings.lockPeriod / 86400) : 30
+  const canWithdraw = !!savings && !savings.rawAmount.isZero() && savings.remainingLockTime === 0
 
   const lockSavings = async (amount: string) => {
     if (!isConnected) {
@@ -20,13 +110,24 @@ export function useSavingsManager() {
 
     setIsProcessing(true)
     try {
-      // For demo purposes, we'll just show a success toast
-      // In a real implementation, this would call the contract
-      await new Promise((resolve) => setTimeout(resolve, 2000))
+      const { spayToken } = getReadOnlyContracts()
+      const spayAmount = ethers.utils.parseUnits(amount, await spayToken.decimals())
+
+      // SavingsManager pulls SPAY with transferFrom, so it needs an allowance first
+      const approval = await ensureSPAYAllowance(CONTRACT_ADDRESSES.SAVING_MANAGER_CONTRACT, spayAmount)
+      if (approval) {
+        toast({
+          title: "SPAY Approved",
+          description: "Approval confirmed. Please confirm the savings lock in your wallet.",
+        })
+      }
+
+      await lockSavingsOnChain(spayAmount)
+      await refreshSavings()
 
       toast({
         title: "Savings Locked",
-        description: `Successfully locked ${amount} SPAY for 30 days.`,
+        description: `Successfully locked ${amount} SPAY for ${lockDays} days.`,
       })
 
       return true
@@ -34,7 +135,7 @@ export function useSavingsManager() {
       console.error("Locking savings failed:", error)
       toast({
         title: "Lock Failed",
-        description: "There was an error locking your savings.",
+        description: explainSavingsError(error, "There was an error locking your savings."),
         variant: "destructive",
       })
       return false
@@ -53,11 +154,20 @@ export function useSavingsManager() {
       return
     }
 
+    // Don't spend gas on a withdrawal the contract will reject
+    if (savings && savings.remainingLockTime > 0) {
+      toast({
+        title: "Savings Still Locked",
+        description: `Your savings unlock on ${formatDate(savings.unlockTime!)} (in ${formatDuration(savings.remainingLockTime)}).`,
+        variant: "destructive",
+      })
+      return false
+    }
+
     setIsProcessing(true)
     try {
-      // For demo purposes, we'll just show a success toast
-      // In a real implementation, this would call the contract
-      await new Promise((resolve) => setTimeout(resolve, 2000))
+      await withdrawSavingsOnChain()
+      await refreshSavings()
 
       toast({
         title: "Savings Withdrawn",
@@ -69,7 +179,7 @@ export function useSavingsManager() {
       console.error("Withdrawing savings failed:", error)
       toast({
         title: "Withdrawal Failed",
-        description: "There was an error withdrawing your savings.",
+        description: explainSavingsError(error, "There was an error withdrawing your savings."),
         variant: "destructive",
       })
       return false
@@ -82,5 +192,8 @@ export function useSavingsManager() {
     lockSavings,
     withdrawSavings,
     isProcessing,
+    savings,
+    lockDays,
+    canWithdraw,
   }
 }
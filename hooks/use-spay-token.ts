@@ -1,10 +1,15 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { ethers } from "ethers"
 import { useWeb3 } from "@/providers/web3-provider"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { formatTokenAmount } from "@/lib/utils"
 
 type SPAYTokenData = {
   balance: string
+  rawBalance: ethers.BigNumber
+  decimals: number
   isVerified: boolean
 }
 
@@ -13,15 +18,48 @@ export function useSPAYToken(): SPAYTokenData | null {
   const [tokenData, setTokenData] = useState<SPAYTokenData | null>(null)
 
   useEffect(() => {
-    if (isConnected && account) {
-      // For demo purposes, we'll return mock data
-      // In a real implementation, this would fetch data from the blockchain
-      setTokenData({
-        balance: "1,000",
-        isVerified: true,
-      })
-    } else {
+    if (!isConnected || !account) {
       setTokenData(null)
+      return
+    }
+
+    const { spayToken } = getReadOnlyContracts()
+    let cancelled = false
+
+    const fetchTokenData = async () => {
+      try {
+        const [rawBalance, decimals, isVerified] = await Promise.all([
+          spayToken.balanceOf(account),
+          spayToken.decimals(),
+          spayToken.isVerified(account),
+        ])
+        if (cancelled) return
+
+        setTokenData({
+          balance: formatTokenAmount(rawBalance, decimals),
+          rawBalance,
+          decimals,
+          isVerified,
+        })
+      } catch (error) {
+        console.error("Failed to fetch SPAY token data:", error)
+      }
+    }
+
+    fetchTokenData()
+
+    // Refresh whenever the account's balance or KYC status changes on chain
+    const filters = [
+      spayToken.filters.Transfer(account, null),
+      spayToken.filters.Transfer(null, account),
+      spayToken.filters.Verified(account),
+      spayToken.filters.Unverified(account),
+    ]
+    filters.forEach((filter) => spayToken.on(filter, fetchTokenData))
+
+    return () => {
+      cancelled = true
+      filters.forEach((filter) => spayToken.off(filter, fetchTokenData))
     }
   }, [account, isConnected])
 
@@ -0,0 +1,129 @@
+// Employee activity timeline merged from payroll, investment, savings, yield and SPAY transfer logs.
+
+import { ethers } from "ethers"
+import { getBlockTimestamps, queryIndexedEvents } from "@/lib/event-index"
+import { explorerTxUrl } from "@/lib/payroll-history"
+
+export type ActivityCategory = "payroll" | "investments" | "savings" | "transfers"
+
+export type ActivityKind =
+  | "payroll"
+  | "invest"
+  | "withdraw-investment"
+  | "yield"
+  | "lock-savings"
+  | "withdraw-savings"
+  | "transfer-in"
+  | "transfer-out"
+
+export type ActivityEntry = {
+  id: string
+  kind: ActivityKind
+  category: ActivityCategory
+  description: string
+  // Positive when the account received tokens, negative when it sent them
+  amount: ethers.BigNumber
+  token: "SPAY" | "ETF"
+  status: "Completed" | "Locked"
+  txHash: string
+  explorerUrl: string
+  blockNumber: number
+  logIndex: number
+  timestamp: number
+}
+
+const categories: Record<ActivityKind, ActivityCategory> = {
+  payroll: "payroll",
+  invest: "investments",
+  "withdraw-investment": "investments",
+  yield: "investments",
+  "lock-savings": "savings",
+  "withdraw-savings": "savings",
+  "transfer-in": "transfers",
+  "transfer-out": "transfers",
+}
+
+// Newest first
+export async function fetchActivityHistory(account: string): Promise<ActivityEntry[]> {
+  const [payroll, invested, withdrawn, locked, unlocked, yields, spayIn, spayOut] = await Promise.all([
+    queryIndexedEvents("payrollProcessor", "PayrollDisbursed", { employee: account }),
+    queryIndexedEvents("investmentManager", "InvestmentMade", { user: account }),
+    queryIndexedEvents("investmentManager", "InvestmentWithdrawn", { user: account }),
+    queryIndexedEvents("savingsManager", "SavingsLocked", { user: account }),
+    queryIndexedEvents("savingsManager", "SavingsWithdrawn", { user: account }),
+    queryIndexedEvents("etfToken", "YieldDistributed", { recipient: account }),
+    queryIndexedEvents("spayToken", "Transfer", { to: account }),
+    queryIndexedEvents("spayToken", "Transfer", { from: account }),
+  ])
+
+  const now = Math.floor(Date.now() / 1000)
+  const partial: Omit<ActivityEntry, "id" | "category" | "explorerUrl" | "timestamp">[] = []
+  const add = (event: { transactionHash: string; blockNumber: number; logIndex: number }, entry: Pick<ActivityEntry, "kind" | "description" | "amount" | "token"> & { status?: ActivityEntry["status"] }) =>
+    partial.push({
+      status: "Completed",
+      ...entry,
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+    })
+
+  payroll.forEach((event) =>
+    add(event, { kind: "payroll", description: "Received Payroll", amount: event.args.amount, token: "SPAY" }),
+  )
+  invested.forEach((event) =>
+    add(event, { kind: "invest", description: "Invested in ETF", amount: event.args.spayAmount.mul(-1), token: "SPAY" }),
+  )
+  withdrawn.forEach((event) =>
+    add(event, { kind: "withdraw-investment", description: "Withdrew from ETF", amount: event.args.spayAmount, token: "SPAY" }),
+  )
+  yields.forEach((event) =>
+    add(event, { kind: "yield", description: "ETF Yield", amount: event.args.amount, token: "ETF" }),
+  )
+  locked.forEach((event) =>
+    add(event, {
+      kind: "lock-savings",
+      description: "Locked Savings",
+      amount: event.args.amount.mul(-1),
+      token: "SPAY",
+      status: event.args.unlockTime.toNumber() > now ? "Locked" : "Completed",
+    }),
+  )
+  unlocked.forEach((event) =>
+    add(event, { kind: "withdraw-savings", description: "Withdrew Savings", amount: event.args.amount, token: "SPAY" }),
+  )
+
+  // Payroll, investments and savings also move SPAY; only show transfers those events don't already explain
+  const explained = new Set(partial.map((entry) => entry.txHash))
+  spayIn
+    .filter((event) => !explained.has(event.transactionHash))
+    .forEach((event) =>
+      add(event, {
+        kind: "transfer-in",
+        description: event.args.from === ethers.constants.AddressZero ? "SPAY Minted" : "Received SPAY",
+        amount: event.args.value,
+        token: "SPAY",
+      }),
+    )
+  spayOut
+    .filter((event) => !explained.has(event.transactionHash))
+    .forEach((event) =>
+      add(event, {
+        kind: "transfer-out",
+        description: event.args.to === ethers.constants.AddressZero ? "SPAY Burned" : "Sent SPAY",
+        amount: event.args.value.mul(-1),
+        token: "SPAY",
+      }),
+    )
+
+  const timestamps = await getBlockTimestamps(partial.map((entry) => entry.blockNumber))
+
+  return partial
+    .map((entry) => ({
+      ...entry,
+      id: `${entry.txHash}-${entry.logIndex}`,
+      category: categories[entry.kind],
+      explorerUrl: explorerTxUrl(entry.txHash),
+      timestamp: timestamps.get(entry.blockNumber) ?? 0,
+    }))
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+}
@@ -0,0 +1,124 @@
+// CollateralManager state and history: ETF locked as collateral against the SPAY supply.
+
+import { ethers } from "ethers"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { getBlockTimestamps, queryIndexedEvents } from "@/lib/event-index"
+
+export type CollateralOverview = {
+  // ETF token amount held by CollateralManager
+  totalLocked: ethers.BigNumber
+  // USD value of totalLocked at the current ETF price (18 decimals)
+  collateralValueUsd: ethers.BigNumber
+  etfPriceUsd: ethers.BigNumber
+  spaySupply: ethers.BigNumber
+  // null when no SPAY is outstanding, which the contract reports as uint256 max
+  ratioBps: number | null
+  minRatioBps: number
+  targetRatioBps: number
+  etfDecimals: number
+  spayDecimals: number
+}
+
+export type CollateralEventKind = "lock" | "release" | "ratio"
+
+export type CollateralHistoryEntry = {
+  kind: CollateralEventKind
+  // ETF amount for lock/release
+  amount: ethers.BigNumber | null
+  // New target ratio for ratio updates
+  newRatioBps: number | null
+  // Collateral locked right after this event
+  totalLocked: ethers.BigNumber
+  txHash: string
+  blockNumber: number
+  logIndex: number
+  timestamp: number
+}
+
+// A dust SPAY supply can push the ratio past what a JS number holds
+const toBps = (ratio: ethers.BigNumber) => (ratio.gt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : ratio.toNumber())
+
+// Mirrors CollateralManager: value = locked * price / 1e18, ratio = value * 10000 / supply
+export function collateralRatioBps(totalLocked: ethers.BigNumber, etfPriceUsd: ethers.BigNumber, spaySupply: ethers.BigNumber) {
+  if (spaySupply.isZero()) return null
+  return toBps(totalLocked.mul(etfPriceUsd).div(ethers.constants.WeiPerEther).mul(10000).div(spaySupply))
+}
+
+export type CollateralHealth = "healthy" | "warning" | "critical" | "no-supply"
+
+// Below the minimum, releases revert; between minimum and target the system should be topped up
+export function collateralHealth(ratioBps: number | null, minRatioBps: number, targetRatioBps: number): CollateralHealth {
+  if (ratioBps === null) return "no-supply"
+  if (ratioBps < minRatioBps) return "critical"
+  if (ratioBps < targetRatioBps) return "warning"
+  return "healthy"
+}
+
+export async function fetchCollateralOverview(): Promise<CollateralOverview> {
+  const { collateralManager, etfToken, spayToken } = getReadOnlyContracts()
+  const [totalLocked, etfPriceUsd, spaySupply, ratio, minRatioBps, targetRatioBps, etfDecimals, spayDecimals] =
+    await Promise.all([
+      collateralManager.totalCollateralLocked(),
+      collateralManager.getETFPriceUSD(),
+      spayToken.totalSupply(),
+      collateralManager.getCollateralRatio(),
+      collateralManager.minCollateralRatioBps(),
+      collateralManager.collateralRatioBps(),
+      etfToken.decimals(),
+      spayToken.decimals(),
+    ])
+
+  return {
+    totalLocked,
+    collateralValueUsd: totalLocked.mul(etfPriceUsd).div(ethers.constants.WeiPerEther),
+    etfPriceUsd,
+    spaySupply,
+    ratioBps: ratio.eq(ethers.constants.MaxUint256) ? null : toBps(ratio),
+    minRatioBps: minRatioBps.toNumber(),
+    targetRatioBps: targetRatioBps.toNumber(),
+    etfDecimals,
+    spayDecimals,
+  }
+}
+
+// Oldest first. Running totals are anchored to the current totalLocked and walked backwards,
+// so they stay correct when the index starts after the contract's deployment.
+export async function fetchCollateralHistory(currentLocked: ethers.BigNumber): Promise<CollateralHistoryEntry[]> {
+  const [locked, released, ratioUpdates] = await Promise.all([
+    queryIndexedEvents("collateralManager", "CollateralLocked"),
+    queryIndexedEvents("collateralManager", "CollateralReleased"),
+    queryIndexedEvents("collateralManager", "CollateralRatioUpdated"),
+  ])
+  const timestamps = await getBlockTimestamps(
+    [...locked, ...released, ...ratioUpdates].map((event) => event.blockNumber),
+  )
+
+  const entries = [
+    ...locked.map((event) => ({ event, kind: "lock" as const, amount: event.args.amount, newRatioBps: null })),
+    ...released.map((event) => ({ event, kind: "release" as const, amount: event.args.amount, newRatioBps: null })),
+    ...ratioUpdates.map((event) => ({
+      event,
+      kind: "ratio" as const,
+      amount: null,
+      newRatioBps: event.args.newRatioBps.toNumber(),
+    })),
+  ].sort((a, b) => b.event.blockNumber - a.event.blockNumber || b.event.logIndex - a.event.logIndex)
+
+  let runningTotal = currentLocked
+  const history = entries.map(({ event, kind, amount, newRatioBps }): CollateralHistoryEntry => {
+    const entry = {
+      kind,
+      amount,
+      newRatioBps,
+      totalLocked: runningTotal,
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      timestamp: timestamps.get(event.blockNumber) ?? 0,
+    }
+    if (amount) runningTotal = kind === "lock" ? runningTotal.sub(amount) : runningTotal.add(amount)
+    return entry
+  })
+
+  return history.reverse()
+}
@@ -0,0 +1,38 @@
+// Pause state of the protocol contracts, and which contracts each user-facing action depends on.
+
+import { isContractPaused, type ProtocolContractName } from "@/WEB3/roleAuthentication"
+import { PROTOCOL_CONTRACTS } from "@/lib/protocol-roles"
+
+export type ContractHealth = "active" | "paused" | "unknown"
+
+export type ContractStatuses = Record<ProtocolContractName, ContractHealth>
+
+// Every contract an action touches must be unpaused for it to go through, including
+// contracts called internally (e.g. InvestmentManager mints ETF and locks collateral)
+export const PAUSABLE_ACTIONS = {
+  payroll: ["payrollProcessor", "spayToken"],
+  schedule: ["payrollProcessor"],
+  registration: ["roleManager"],
+  invest: ["investmentManager", "spayToken", "etfToken", "collateralManager"],
+  savings: ["savingsManager", "spayToken"],
+  collateral: ["collateralManager"],
+} satisfies Record<string, ProtocolContractName[]>
+
+export type PausableAction = keyof typeof PAUSABLE_ACTIONS
+
+export const unknownContractStatuses = () =>
+  Object.fromEntries(PROTOCOL_CONTRACTS.map((contract) => [contract, "unknown"])) as ContractStatuses
+
+export async function fetchContractHealth(contract: ProtocolContractName): Promise<ContractHealth> {
+  try {
+    return (await isContractPaused(contract)) ? "paused" : "active"
+  } catch (error) {
+    console.error(`Failed to read pause state of ${contract}:`, error)
+    return "unknown"
+  }
+}
+
+export async function fetchContractStatuses(): Promise<ContractStatuses> {
+  const health = await Promise.all(PROTOCOL_CONTRACTS.map(fetchContractHealth))
+  return Object.fromEntries(PROTOCOL_CONTRACTS.map((contract, index) => [contract, health[index]])) as ContractStatuses
+}
@@ -0,0 +1,61 @@
+// Minimal RFC 4180 CSV parsing: quoted fields, escaped quotes and CRLF line endings.
+// Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+// Leading characters that make Excel and Sheets evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Quotes fields containing commas, quotes or line breaks. Text cells that would be read as a
+// formula (e.g. a directory name of "=HYPERLINK(...)") get a leading apostrophe.
+export function toCsv(rows: (string | number)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const field = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+          return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+        })
+        .join(","),
+    )
+    .join("\r\n")
+}
@@ -0,0 +1,36 @@
+import path from "path"
+import type { EmployeeProfile } from "@/lib/employee-directory"
+import { createJsonFileStore } from "@/lib/json-file-store"
+
+// JSON file backing the directory. Override with EMPLOYEE_DIRECTORY_PATH, e.g. to a mounted volume.
+const STORE_PATH = process.env.EMPLOYEE_DIRECTORY_PATH || path.join(process.cwd(), ".data", "employee-directory.json")
+
+const store = createJsonFileStore<EmployeeProfile>(STORE_PATH)
+
+const storeKey = (employer: string, employee: string) => `${employer.toLowerCase()}:${employee.toLowerCase()}`
+
+export async function listEmployeeProfiles(employer: string): Promise<EmployeeProfile[]> {
+  const profiles = await store.read()
+  const prefix = `${employer.toLowerCase()}:`
+  return Object.entries(profiles)
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([, profile]) => profile)
+}
+
+export async function upsertEmployeeProfile(profile: EmployeeProfile): Promise<EmployeeProfile> {
+  return store.update((profiles) => {
+    const key = storeKey(profile.employer, profile.employee)
+    const saved = { ...profiles[key], ...profile, updatedAt: new Date().toISOString() }
+    profiles[key] = saved
+    return saved
+  })
+}
+
+export async function deleteEmployeeProfile(employer: string, employee: string): Promise<boolean> {
+  return store.update((profiles) => {
+    const key = storeKey(employer, employee)
+    const existed = key in profiles
+    delete profiles[key]
+    return existed
+  })
+}
@@ -0,0 +1,41 @@
+// Off-chain employee directory: names and HR metadata the chain doesn't know about,
+// keyed by employer + employee wallet address.
+
+export type EmployeeProfile = {
+  employer: string
+  employee: string
+  name: string
+  email?: string
+  department?: string
+  startDate?: string
+  notes?: string
+  updatedAt?: string
+}
+
+// Profiles indexed by lowercased employee address, for joining against on-chain data
+export type EmployeeDirectory = Record<string, EmployeeProfile>
+
+export async function fetchEmployeeDirectory(employer: string): Promise<EmployeeDirectory> {
+  const response = await fetch(`/api/employees?employer=${encodeURIComponent(employer)}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load employee directory: ${response.status}`)
+  }
+
+  const { profiles } = (await response.json()) as { profiles: EmployeeProfile[] }
+  return Object.fromEntries(profiles.map((profile) => [profile.employee.toLowerCase(), profile]))
+}
+
+export async function saveEmployeeProfile(profile: EmployeeProfile): Promise<EmployeeProfile> {
+  const response = await fetch("/api/employees", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(profile),
+  })
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }))
+    throw new Error(`Failed to save employee profile: ${error}`)
+  }
+
+  const { profile: saved } = (await response.json()) as { profile: EmployeeProfile }
+  return saved
+}
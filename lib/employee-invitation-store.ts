@@ -0,0 +1,43 @@
+import path from "path"
+import type { ClaimedInvitation } from "@/lib/employee-invitation"
+import { createJsonFileStore } from "@/lib/json-file-store"
+
+// JSON file of claimed invitations. Override with EMPLOYEE_INVITATIONS_PATH, e.g. to a mounted volume.
+const STORE_PATH =
+  process.env.EMPLOYEE_INVITATIONS_PATH || path.join(process.cwd(), ".data", "employee-invitations.json")
+
+// Keyed by lowercased nonce, so a nonce in the store has been used and can't be claimed again
+const store = createJsonFileStore<ClaimedInvitation>(STORE_PATH)
+
+export async function isInvitationClaimed(nonce: string): Promise<boolean> {
+  const claims = await store.read()
+  return nonce.toLowerCase() in claims
+}
+
+// Null when the nonce was already spent
+export async function recordInvitationClaim(claim: ClaimedInvitation): Promise<ClaimedInvitation | null> {
+  return store.update((claims) => {
+    const key = claim.invitation.nonce.toLowerCase()
+    if (key in claims) return null
+    claims[key] = claim
+    return claim
+  })
+}
+
+// Oldest first
+export async function listClaimedInvitations(employer: string): Promise<ClaimedInvitation[]> {
+  const claims = await store.read()
+  return Object.values(claims)
+    .filter((claim) => claim.invitation.employer.toLowerCase() === employer.toLowerCase())
+    .sort((a, b) => a.claimedAt.localeCompare(b.claimedAt))
+}
+
+// Null when the employer has no claimed invitation with this nonce
+export async function markInvitationApplied(employer: string, nonce: string): Promise<ClaimedInvitation | null> {
+  return store.update((claims) => {
+    const claim = claims[nonce.toLowerCase()]
+    if (!claim || claim.invitation.employer.toLowerCase() !== employer.toLowerCase()) return null
+    claims[nonce.toLowerCase()] = { ...claim, appliedAt: new Date().toISOString() }
+    return claims[nonce.toLowerCase()]
+  })
+}
@@ -0,0 +1,201 @@
+// Employee invitations: EIP-712 signed pay terms from an employer, carried in a link
+// the employee opens to register under that employer.
+
+import { ethers } from "ethers"
+import { CONTRACT_ADDRESSES, DEFAULT_CHAIN } from "@/config/blockchain"
+import { getBlockchainContracts, getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { getReadOnlyRoleManager } from "@/WEB3/roleAuthentication"
+import { describeInterval } from "@/lib/employee-roster"
+import { formatTokenAmount } from "@/lib/utils"
+
+export type EmployeeInvitation = {
+  employer: string
+  // Zero address means anyone holding the link may claim it
+  employee: string
+  // SPAY base units per payment
+  amount: string
+  interval: number
+  expiry: number
+  nonce: string
+}
+
+export type SignedInvitation = {
+  invitation: EmployeeInvitation
+  signature: string
+}
+
+// An invitation the employee redeemed by registering under the employer. The nonce is spent;
+// `appliedAt` is set once the employer scheduled the agreed pay on chain.
+export type ClaimedInvitation = SignedInvitation & {
+  claimant: string
+  claimedAt: string
+  appliedAt?: string
+}
+
+export type VerifiedInvitation = EmployeeInvitation & {
+  formattedAmount: string
+  schedule: string
+}
+
+const INVITATION_DOMAIN = {
+  name: "StablePay Invitation",
+  version: "1",
+  chainId: DEFAULT_CHAIN.id,
+  verifyingContract: CONTRACT_ADDRESSES.ROLE_MANAGER_CONTRACT,
+}
+
+const INVITATION_TYPES = {
+  EmployeeInvitation: [
+    { name: "employer", type: "address" },
+    { name: "employee", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "interval", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+}
+
+export async function signEmployeeInvitation(terms: {
+  employee?: string
+  amount: string
+  interval: number
+  validForDays: number
+}): Promise<SignedInvitation> {
+  // Typed-data signing lives on the JSON-RPC signer rather than the generic Signer
+  const { provider, spayToken } = await getBlockchainContracts()
+  const signer = provider.getSigner()
+
+  const invitation: EmployeeInvitation = {
+    employer: await signer.getAddress(),
+    employee: terms.employee ? ethers.utils.getAddress(terms.employee) : ethers.constants.AddressZero,
+    amount: ethers.utils.parseUnits(terms.amount, await spayToken.decimals()).toString(),
+    interval: terms.interval,
+    expiry: Math.floor(Date.now() / 1000) + terms.validForDays * 86400,
+    nonce: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+  }
+
+  const signature = await signer._signTypedData(INVITATION_DOMAIN, INVITATION_TYPES, invitation)
+  return { invitation, signature }
+}
+
+// URL-safe base64 of the signed payload, for the `invite` query parameter
+export function encodeInvitation(signed: SignedInvitation): string {
+  return ethers.utils.base64
+    .encode(ethers.utils.toUtf8Bytes(JSON.stringify(signed)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+}
+
+export function decodeInvitation(token: string): SignedInvitation {
+  try {
+    const base64 = token.replace(/-/g, "+").replace(/_/g, "/")
+    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4)
+    const signed = JSON.parse(ethers.utils.toUtf8String(ethers.utils.base64.decode(padded)))
+    if (typeof signed?.invitation !== "object" || !signed.invitation || typeof signed.signature !== "string") {
+      throw new Error("Missing invitation or signature")
+    }
+    return signed as SignedInvitation
+  } catch {
+    throw new Error("This invitation link is malformed")
+  }
+}
+
+export function buildInvitationUrl(signed: SignedInvitation): string {
+  return `${window.location.origin}/auth?invite=${encodeInvitation(signed)}`
+}
+
+// Checks the signature, expiry and intended recipient, and that the employer can still take on employees
+export async function verifyInvitation(signed: SignedInvitation, claimant?: string): Promise<VerifiedInvitation> {
+  const { invitation, signature } = signed
+
+  let signerAddress: string
+  try {
+    signerAddress = ethers.utils.verifyTypedData(INVITATION_DOMAIN, INVITATION_TYPES, invitation, signature)
+  } catch {
+    throw new Error("This invitation has an invalid signature")
+  }
+  if (signerAddress.toLowerCase() !== invitation.employer.toLowerCase()) {
+    throw new Error("This invitation was not signed by the employer it names")
+  }
+
+  if (invitation.expiry < Math.floor(Date.now() / 1000)) {
+    throw new Error("This invitation has expired. Ask your employer for a new link.")
+  }
+
+  if (
+    claimant &&
+    invitation.employee !== ethers.constants.AddressZero &&
+    invitation.employee.toLowerCase() !== claimant.toLowerCase()
+  ) {
+    throw new Error("This invitation was issued to a different wallet")
+  }
+
+  const [isEmployer, decimals] = await Promise.all([
+    getReadOnlyRoleManager().isEmployer(invitation.employer),
+    getReadOnlyContracts().spayToken.decimals(),
+  ])
+  if (!isEmployer) {
+    throw new Error("The inviting address is no longer registered as an employer")
+  }
+
+  return {
+    ...invitation,
+    formattedAmount: formatTokenAmount(invitation.amount, decimals),
+    schedule: describeInterval(invitation.interval),
+  }
+}
+
+async function readError(response: Response) {
+  const { error } = await response.json().catch(() => ({ error: response.statusText }))
+  return error
+}
+
+export async function fetchInvitationClaimed(nonce: string): Promise<boolean> {
+  const response = await fetch(`/api/invitations?nonce=${encodeURIComponent(nonce)}`)
+  if (!response.ok) {
+    throw new Error(`Failed to check invitation: ${await readError(response)}`)
+  }
+
+  const { claimed } = (await response.json()) as { claimed: boolean }
+  return claimed
+}
+
+// Records the claim for the signed-in employee, spending the invitation's nonce
+export async function claimEmployeeInvitation(signed: SignedInvitation): Promise<ClaimedInvitation> {
+  const response = await fetch("/api/invitations", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(signed),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to claim invitation: ${await readError(response)}`)
+  }
+
+  const { claim } = (await response.json()) as { claim: ClaimedInvitation }
+  return claim
+}
+
+export async function fetchClaimedInvitations(employer: string): Promise<ClaimedInvitation[]> {
+  const response = await fetch(`/api/invitations?employer=${encodeURIComponent(employer)}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load claimed invitations: ${await readError(response)}`)
+  }
+
+  const { claims } = (await response.json()) as { claims: ClaimedInvitation[] }
+  return claims
+}
+
+export async function markInvitationApplied(employer: string, nonce: string): Promise<ClaimedInvitation> {
+  const response = await fetch("/api/invitations", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ employer, nonce }),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to update invitation: ${await readError(response)}`)
+  }
+
+  const { claim } = (await response.json()) as { claim: ClaimedInvitation }
+  return claim
+}
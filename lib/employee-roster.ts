@@ -0,0 +1,66 @@
+// An employer's current employees, reconstructed from RoleManager and PayrollProcessor logs.
+
+import { ethers } from "ethers"
+import type { EmployeeProfile } from "@/lib/employee-directory"
+import { queryIndexedEvents } from "@/lib/event-index"
+
+export type EmployeeStatus = "Active" | "Due" | "Not Scheduled"
+
+export type RosterEmployee = {
+  address: string
+  name?: string
+  profile?: EmployeeProfile
+  amount: string
+  rawAmount: ethers.BigNumber
+  schedule: string
+  paymentInterval: number
+  lastPaymentTimestamp: number | null
+  nextPaymentTimestamp: number | null
+  lastPaid: string
+  status: EmployeeStatus
+}
+
+// Payment intervals, in seconds, for the schedules the Add Employee form offers
+export const PAYMENT_INTERVALS: Record<string, number> = {
+  Weekly: 604800,
+  "Bi-weekly": 1209600,
+  Monthly: 2592000,
+}
+
+// Human label for a payment interval
+export function describeInterval(seconds: number): string {
+  const schedule = Object.keys(PAYMENT_INTERVALS).find((label) => PAYMENT_INTERVALS[label] === seconds)
+  if (schedule) return schedule
+  if (seconds === 0) return "-"
+  return `Every ${Math.round(seconds / 86400)} days`
+}
+
+// Employee addresses as first seen on chain, in the order they joined
+export async function fetchRosterAddresses(employer: string): Promise<string[]> {
+  const [registered, transferredIn, transferredOut, scheduled] = await Promise.all([
+    queryIndexedEvents("roleManager", "EmployeeRegistered", { employer }),
+    queryIndexedEvents("roleManager", "EmployeeTransferred", { newEmployer: employer }),
+    queryIndexedEvents("roleManager", "EmployeeTransferred", { oldEmployer: employer }),
+    queryIndexedEvents("payrollProcessor", "PayrollScheduleSet", { employer }),
+  ])
+
+  // Replay membership changes in chain order so transfers away remove an employee
+  const membership = [
+    ...registered.map((event) => ({ event, joined: true })),
+    ...transferredIn.map((event) => ({ event, joined: true })),
+    ...scheduled.map((event) => ({ event, joined: true })),
+    ...transferredOut.map((event) => ({ event, joined: false })),
+  ].sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.logIndex - b.event.logIndex)
+
+  const roster = new Map<string, string>()
+  for (const { event, joined } of membership) {
+    const employee = event.args.employee
+    if (joined) {
+      roster.set(employee.toLowerCase(), employee)
+    } else {
+      roster.delete(employee.toLowerCase())
+    }
+  }
+
+  return Array.from(roster.values())
+}
@@ -0,0 +1,22 @@
+import path from "path"
+import { defaultEmployerSettings, type EmployerSettings } from "@/lib/employer-settings"
+import { createJsonFileStore } from "@/lib/json-file-store"
+
+// JSON file backing employer settings. Override with EMPLOYER_SETTINGS_PATH, e.g. to a mounted volume.
+const STORE_PATH = process.env.EMPLOYER_SETTINGS_PATH || path.join(process.cwd(), ".data", "employer-settings.json")
+
+const store = createJsonFileStore<EmployerSettings>(STORE_PATH)
+
+export async function getEmployerSettings(employer: string): Promise<EmployerSettings> {
+  const settings = await store.read()
+  return settings[employer.toLowerCase()] ?? defaultEmployerSettings(employer)
+}
+
+export async function saveEmployerSettings(settings: EmployerSettings): Promise<EmployerSettings> {
+  return store.update((stored) => {
+    const key = settings.employer.toLowerCase()
+    const saved = { ...stored[key], ...settings, updatedAt: new Date().toISOString() }
+    stored[key] = saved
+    return saved
+  })
+}
@@ -0,0 +1,45 @@
+// Per-employer payroll defaults and company details, kept off-chain alongside the employee directory.
+
+export const DEFAULT_CURRENCIES = ["SPAY", "USD"] as const
+
+export type EmployerSettings = {
+  employer: string
+  // One of the PAYMENT_INTERVALS labels
+  defaultSchedule: string
+  defaultCurrency: (typeof DEFAULT_CURRENCIES)[number]
+  companyName?: string
+  companyAddress?: string
+  taxId?: string
+  updatedAt?: string
+}
+
+export const defaultEmployerSettings = (employer: string): EmployerSettings => ({
+  employer,
+  defaultSchedule: "Bi-weekly",
+  defaultCurrency: "SPAY",
+})
+
+export async function fetchEmployerSettings(employer: string): Promise<EmployerSettings> {
+  const response = await fetch(`/api/employer-settings?employer=${encodeURIComponent(employer)}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load employer settings: ${response.status}`)
+  }
+
+  const { settings } = (await response.json()) as { settings: EmployerSettings }
+  return settings
+}
+
+export async function saveEmployerSettings(settings: EmployerSettings): Promise<EmployerSettings> {
+  const response = await fetch("/api/employer-settings", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  })
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }))
+    throw new Error(`Failed to save employer settings: ${error}`)
+  }
+
+  const { settings: saved } = (await response.json()) as { settings: EmployerSettings }
+  return saved
+}
@@ -0,0 +1,81 @@
+// File-backed event index for server code, which has no IndexedDB. Never import this from client code.
+
+import path from "path"
+import { createJsonFileStore } from "@/lib/json-file-store"
+import type { EventIndexStore, IndexCursor, StoredBlock, StoredLog } from "@/lib/event-index"
+
+// Directory holding one index file per chain. Override with EVENT_INDEX_DIR, e.g. to a mounted volume.
+const STORE_DIR = process.env.EVENT_INDEX_DIR || path.join(process.cwd(), ".data")
+
+type IndexFile = {
+  cursor: IndexCursor | null
+  logs: StoredLog[]
+  blocks: Record<number, StoredBlock>
+}
+
+const INDEX_KEY = "index"
+
+const emptyIndex = (): IndexFile => ({ cursor: null, logs: [], blocks: {} })
+
+// One store per file, so every caller shares its write queue
+const stores = new Map<number, EventIndexStore>()
+
+export async function openFileIndexStore(chainId: number): Promise<EventIndexStore> {
+  const existing = stores.get(chainId)
+  if (existing) return existing
+
+  const file = createJsonFileStore<IndexFile>(path.join(STORE_DIR, `event-index-${chainId}.json`))
+  const read = async () => (await file.read())[INDEX_KEY] ?? emptyIndex()
+  const update = (apply: (index: IndexFile) => void) =>
+    file.update((contents) => {
+      const index = contents[INDEX_KEY] ?? emptyIndex()
+      apply(index)
+      contents[INDEX_KEY] = index
+    })
+
+  const store: EventIndexStore = {
+    async readCursor() {
+      return (await read()).cursor
+    },
+
+    append: (logs, cursor) =>
+      update((index) => {
+        const ids = new Set(logs.map((log) => log.id))
+        index.logs = [...index.logs.filter((log) => !ids.has(log.id)), ...logs]
+        index.cursor = cursor
+      }),
+
+    rewind: (cursor) =>
+      update((index) => {
+        index.logs = index.logs.filter((log) => log.blockNumber <= cursor.lastBlock)
+        index.blocks = Object.fromEntries(
+          Object.entries(index.blocks).filter(([number]) => Number(number) <= cursor.lastBlock),
+        )
+        index.cursor = cursor
+      }),
+
+    reset: (cursor) =>
+      update((index) => {
+        index.logs = []
+        index.cursor = cursor
+      }),
+
+    async readLogs(contract, event) {
+      return (await read()).logs.filter((log) => log.contract === contract && log.event === event)
+    },
+
+    async readBlocks(numbers) {
+      const { blocks } = await read()
+      return numbers.map((number) => blocks[number]).filter((block): block is StoredBlock => !!block)
+    },
+
+    writeBlocks: (blocks) =>
+      update((index) => {
+        blocks.forEach((block) => {
+          index.blocks[block.number] = block
+        })
+      }),
+  }
+  stores.set(chainId, store)
+  return store
+}
@@ -0,0 +1,95 @@
+// IndexedDB storage for the browser's event index, one database per chain.
+
+import type { EventIndexStore, IndexCursor, StoredBlock, StoredLog } from "@/lib/event-index"
+
+// Version 1 kept a cursor per contract; version 2 indexes every contract under one cursor
+const DB_VERSION = 2
+
+const CURSOR_KEY = "index"
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function openIndexedDBStore(chainId: number): Promise<EventIndexStore> {
+  const request = indexedDB.open(`stablepay-events-${chainId}`, DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    // Older layouts are rebuilt from the chain rather than migrated
+    Array.from(db.objectStoreNames).forEach((name) => db.deleteObjectStore(name))
+    const logs = db.createObjectStore("logs", { keyPath: "id" })
+    logs.createIndex("byBlock", "blockNumber")
+    logs.createIndex("byEvent", ["contract", "event"])
+    db.createObjectStore("cursor")
+    db.createObjectStore("blocks", { keyPath: "number" })
+  }
+  const db = await requestResult(request)
+
+  return {
+    async readCursor() {
+      const cursor = await requestResult<IndexCursor | undefined>(
+        db.transaction("cursor").objectStore("cursor").get(CURSOR_KEY),
+      )
+      return cursor ?? null
+    },
+
+    async append(logs, cursor) {
+      const transaction = db.transaction(["logs", "cursor"], "readwrite")
+      logs.forEach((log) => transaction.objectStore("logs").put(log))
+      transaction.objectStore("cursor").put(cursor, CURSOR_KEY)
+      await transactionDone(transaction)
+    },
+
+    async rewind(cursor) {
+      const transaction = db.transaction(["logs", "cursor", "blocks"], "readwrite")
+      const range = IDBKeyRange.lowerBound(cursor.lastBlock + 1)
+      const request = transaction.objectStore("logs").index("byBlock").openCursor(range)
+      request.onsuccess = () => {
+        const logCursor = request.result
+        if (logCursor) {
+          logCursor.delete()
+          logCursor.continue()
+        }
+      }
+      transaction.objectStore("blocks").delete(range)
+      transaction.objectStore("cursor").put(cursor, CURSOR_KEY)
+      await transactionDone(transaction)
+    },
+
+    async reset(cursor) {
+      const transaction = db.transaction(["logs", "cursor"], "readwrite")
+      transaction.objectStore("logs").clear()
+      transaction.objectStore("cursor").put(cursor, CURSOR_KEY)
+      await transactionDone(transaction)
+    },
+
+    readLogs(contract, event) {
+      return requestResult<StoredLog[]>(
+        db.transaction("logs").objectStore("logs").index("byEvent").getAll(IDBKeyRange.only([contract, event])),
+      )
+    },
+
+    async readBlocks(numbers) {
+      const store = db.transaction("blocks").objectStore("blocks")
+      const blocks = await Promise.all(numbers.map((number) => requestResult<StoredBlock | undefined>(store.get(number))))
+      return blocks.filter((block): block is StoredBlock => !!block)
+    },
+
+    async writeBlocks(blocks) {
+      const transaction = db.transaction("blocks", "readwrite")
+      blocks.forEach((block) => transaction.objectStore("blocks").put(block))
+      await transactionDone(transaction)
+    },
+  }
+}
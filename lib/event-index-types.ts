@@ -0,0 +1,93 @@
+// Decoded argument types for every event in the ABIs under WEB3/abis, keyed by
+// the contract names used in ProtocolContracts.
+
+import type { BigNumber } from "ethers"
+
+type AccessControlEvents = {
+  RoleAdminChanged: { role: string; previousAdminRole: string; newAdminRole: string }
+  RoleGranted: { role: string; account: string; sender: string }
+  RoleRevoked: { role: string; account: string; sender: string }
+}
+
+type PausableEvents = {
+  Paused: { account: string }
+  Unpaused: { account: string }
+}
+
+type ERC20Events = {
+  Transfer: { from: string; to: string; value: BigNumber }
+  Approval: { owner: string; spender: string; value: BigNumber }
+}
+
+export type IndexedEventArgs = {
+  spayToken: AccessControlEvents &
+    PausableEvents &
+    ERC20Events & {
+      Verified: { user: string }
+      Unverified: { user: string }
+    }
+  etfToken: AccessControlEvents &
+    PausableEvents &
+    ERC20Events & {
+      PricesUpdated: { goldPrice: BigNumber; btcPrice: BigNumber; ethPrice: BigNumber }
+      YieldDistributed: { recipient: string; amount: BigNumber }
+    }
+  payrollProcessor: AccessControlEvents &
+    PausableEvents & {
+      PayrollScheduleSet: { employer: string; employee: string; amount: BigNumber; interval: BigNumber }
+      // amount is the net payment; gross is amount + taxAmount + feeAmount
+      PayrollDisbursed: {
+        employer: string
+        employee: string
+        amount: BigNumber
+        taxAmount: BigNumber
+        feeAmount: BigNumber
+      }
+      TaxRateUpdated: { newRateBps: BigNumber }
+      FeeRateUpdated: { newRateBps: BigNumber }
+    }
+  collateralManager: AccessControlEvents &
+    PausableEvents & {
+      CollateralLocked: { amount: BigNumber }
+      CollateralReleased: { amount: BigNumber }
+      CollateralRatioUpdated: { newRatioBps: BigNumber }
+    }
+  investmentManager: AccessControlEvents &
+    PausableEvents & {
+      InvestmentMade: { user: string; spayAmount: BigNumber; etfAmount: BigNumber }
+      InvestmentWithdrawn: { user: string; etfAmount: BigNumber; spayAmount: BigNumber }
+      InvestmentPercentageUpdated: { newPercentageBps: BigNumber }
+    }
+  savingsManager: AccessControlEvents &
+    PausableEvents & {
+      SavingsLocked: { user: string; amount: BigNumber; unlockTime: BigNumber }
+      SavingsWithdrawn: { user: string; amount: BigNumber }
+      LockPeriodUpdated: { newPeriod: BigNumber }
+    }
+  // RoleManager overloads RoleGranted/RoleRevoked: OpenZeppelin's (sender) and its own (admin, timestamp)
+  roleManager: PausableEvents & {
+    RoleAdminChanged: AccessControlEvents["RoleAdminChanged"]
+    RoleGranted: { role: string; account: string; sender?: string; admin?: string; timestamp?: BigNumber }
+    RoleRevoked: { role: string; account: string; sender?: string; admin?: string; timestamp?: BigNumber }
+    RoleRenounced: { role: string; account: string; timestamp: BigNumber }
+    EmployerRegistered: { employer: string; timestamp: BigNumber }
+    EmployeeRegistered: { employee: string; employer: string; timestamp: BigNumber }
+    EmployeeTransferred: { employee: string; oldEmployer: string; newEmployer: string; timestamp: BigNumber }
+    ContractPaused: { pauser: string; timestamp: BigNumber }
+    ContractUnpaused: { pauser: string; timestamp: BigNumber }
+  }
+}
+
+export type IndexedContract = keyof IndexedEventArgs
+
+export type IndexedEventName<C extends IndexedContract> = keyof IndexedEventArgs[C] & string
+
+export type IndexedEvent<C extends IndexedContract, E extends IndexedEventName<C>> = {
+  contract: C
+  event: E
+  args: IndexedEventArgs[C][E]
+  blockNumber: number
+  blockHash: string
+  logIndex: number
+  transactionHash: string
+}
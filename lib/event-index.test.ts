@@ -0,0 +1,175 @@
+import "fake-indexeddb/auto"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import ganache from "ganache"
+import { ethers } from "ethers"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { IndexedContract, IndexedEvent } from "@/lib/event-index-types"
+
+const RPC_PORT = 18545
+
+// Stands in for every protocol contract: the fallback emits whatever log the calldata describes,
+// laid out as [topic count][topics...][data]. Compiled with solc 0.8.20 (optimizer on, evmVersion paris) from:
+//
+//   contract LogEmitter { fallback() external { assembly {
+//     let n := calldataload(0) let offset := add(32, mul(n, 32)) let size := sub(calldatasize(), offset)
+//     calldatacopy(0, offset, size)
+//     switch n case 0 { log0(0, size) } case 1 { log1(0, size, calldataload(32)) }
+//     case 2 { log2(0, size, calldataload(32), calldataload(64)) }
+//     case 3 { log3(0, size, calldataload(32), calldataload(64), calldataload(96)) }
+//     default { log4(0, size, calldataload(32), calldataload(64), calldataload(96), calldataload(128)) } } } }
+const LOG_EMITTER_CODE =
+  "0x6080604052348015600f57600080fd5b50600080358060051b601f1981360301808260200185378280156052576001811460575760028114605f5760038114606a576080356060356040356020358589a4005b8185a0005b6020358286a1005b6040356020358387a2005b6060356040356020358488a300fea2646970667358221220c226c483a6fece0f8106a39ec20bafb8210a170c10e85ba2051d16235340692a64736f6c63430008140033"
+
+const EMPLOYER = "0x1111111111111111111111111111111111111111"
+const ALICE = "0x2222222222222222222222222222222222222222"
+const BOB = "0x3333333333333333333333333333333333333333"
+
+let server: ReturnType<typeof ganache.server>
+let provider: ethers.providers.JsonRpcProvider
+let indexDir: string
+// Snapshot of the chain right after the contracts are deployed, restored before each store's tests
+let deployed: string
+
+type EventIndexModule = typeof import("@/lib/event-index")
+
+// The browser's IndexedDB store is the default wherever indexedDB exists
+const STORES: [string, (eventIndex: EventIndexModule) => Promise<void>][] = [
+  ["IndexedDB", async () => {}],
+  [
+    "file",
+    async (eventIndex) => {
+      const { openFileIndexStore } = await import("@/lib/event-index-file-store")
+      eventIndex.setEventIndexStore(openFileIndexStore)
+    },
+  ],
+]
+
+async function emit(contract: IndexedContract, event: string, values: unknown[]) {
+  const { getReadOnlyContracts } = await import("@/WEB3/blockchainIntergation")
+  const { [contract]: instance } = getReadOnlyContracts()
+  const { topics, data } = instance.interface.encodeEventLog(instance.interface.getEvent(event), values)
+  const calldata = ethers.utils.hexConcat([ethers.utils.hexZeroPad(ethers.utils.hexlify(topics.length), 32), ...topics, data])
+  const transaction = await provider.getSigner(0).sendTransaction({ to: instance.address, data: calldata, gasLimit: 100_000 })
+  await transaction.wait()
+}
+
+const disburse = (employee: string, amount: number) =>
+  emit("payrollProcessor", "PayrollDisbursed", [EMPLOYER, employee, amount, 0, 0])
+
+// Straight from the node: ethers' getBlockNumber never goes backwards, even after evm_revert
+const latestBlock = async () => Number(await provider.send("eth_blockNumber", []))
+
+const mine = async (blocks: number) => {
+  for (let i = 0; i < blocks; i++) await provider.send("evm_mine", [])
+}
+
+// eth_getLogs block ranges requested while `run` executes
+async function requestedRanges(run: () => Promise<unknown>) {
+  const send = vi.spyOn(ethers.providers.JsonRpcProvider.prototype, "send")
+  try {
+    await run()
+    return send.mock.calls
+      .filter(([method]) => method === "eth_getLogs")
+      .map(([, [filter]]) => [Number(filter.fromBlock), Number(filter.toBlock)])
+  } finally {
+    send.mockRestore()
+  }
+}
+
+beforeAll(async () => {
+  // ganache 7's option types resolve to undefined under TypeScript 5, hence the cast
+  server = ganache.server({ logging: { quiet: true }, chain: { chainId: 1337 } } as never)
+  await server.listen(RPC_PORT)
+  vi.stubEnv("NEXT_PUBLIC_RPC_URL", `http://127.0.0.1:${RPC_PORT}`)
+  indexDir = await fs.mkdtemp(path.join(os.tmpdir(), "event-index-"))
+  vi.stubEnv("EVENT_INDEX_DIR", indexDir)
+  provider = new ethers.providers.JsonRpcProvider(`http://127.0.0.1:${RPC_PORT}`)
+
+  // Empty history before the deployment, which the index should skip
+  await mine(5)
+  const { CONTRACT_ADDRESSES } = await import("@/config/blockchain")
+  for (const address of Object.values(CONTRACT_ADDRESSES)) {
+    await provider.send("evm_setAccountCode", [address, LOG_EMITTER_CODE])
+  }
+  deployed = await provider.send("evm_snapshot", [])
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await server?.close()
+  if (indexDir) await fs.rm(indexDir, { recursive: true, force: true })
+})
+
+describe.each(STORES)("event index (%s store)", (_, useStore) => {
+  // A fresh copy of the index module, as a new page load or server process would see it; the store persists between loads
+  async function loadEventIndex() {
+    vi.resetModules()
+    const eventIndex = await import("@/lib/event-index")
+    await useStore(eventIndex)
+    return eventIndex
+  }
+
+  beforeAll(async () => {
+    await provider.send("evm_revert", [deployed])
+    deployed = await provider.send("evm_snapshot", [])
+  })
+
+  it("backfills from the deployment block with one eth_getLogs call per range", async () => {
+    await disburse(ALICE, 100)
+    await emit("spayToken", "Transfer", [EMPLOYER, ALICE, 100])
+    await disburse(BOB, 200)
+
+    const { queryIndexedEvents } = await loadEventIndex()
+    let events: IndexedEvent<"payrollProcessor", "PayrollDisbursed">[] = []
+    const ranges = await requestedRanges(async () => {
+      events = await queryIndexedEvents("payrollProcessor", "PayrollDisbursed")
+    })
+
+    expect(events.map((event) => [event.args.employee, event.args.amount.toNumber()])).toEqual([
+      [ethers.utils.getAddress(ALICE), 100],
+      [ethers.utils.getAddress(BOB), 200],
+    ])
+    // The first contract was deployed in block 6, after five empty blocks
+    expect(ranges).toEqual([[6, await latestBlock()]])
+
+    const transfers = await queryIndexedEvents("spayToken", "Transfer", { to: ALICE })
+    expect(transfers).toHaveLength(1)
+  })
+
+  it("resumes from the cursor on the next load", async () => {
+    const indexedBlock = await latestBlock()
+    await disburse(ALICE, 300)
+
+    const { queryIndexedEvents } = await loadEventIndex()
+    let events: IndexedEvent<"payrollProcessor", "PayrollDisbursed">[] = []
+    const ranges = await requestedRanges(async () => {
+      events = await queryIndexedEvents("payrollProcessor", "PayrollDisbursed", { employee: ALICE })
+    })
+
+    expect(events.map((event) => event.args.amount.toNumber())).toEqual([100, 300])
+    expect(ranges).toEqual([[indexedBlock + 1, await latestBlock()]])
+  })
+
+  it("rewinds blocks dropped by a reorg and indexes the replacement chain", async () => {
+    const snapshot = await provider.send("evm_snapshot", [])
+    await disburse(BOB, 999)
+
+    const { queryIndexedEvents } = await loadEventIndex()
+    const beforeReorg = await queryIndexedEvents("payrollProcessor", "PayrollDisbursed", { employee: BOB })
+    expect(beforeReorg.map((event) => event.args.amount.toNumber())).toEqual([200, 999])
+
+    // Replace the indexed tip with a longer chain holding a different payment
+    await provider.send("evm_revert", [snapshot])
+    await disburse(BOB, 400)
+    await mine(2)
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const afterReorg = await queryIndexedEvents("payrollProcessor", "PayrollDisbursed", { employee: BOB })
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Reorg detected"))
+    warn.mockRestore()
+
+    expect(afterReorg.map((event) => event.args.amount.toNumber())).toEqual([200, 400])
+  })
+})
@@ -0,0 +1,325 @@
+// Event index shared by every history view and the payroll scheduler. Mirrors the protocol contracts'
+// logs into a local store (IndexedDB in the browser, a file on the server) so queries run locally
+// and only fetch blocks they haven't seen yet.
+
+import { ethers } from "ethers"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { INDEX_START_BLOCK } from "@/config/blockchain"
+import { openIndexedDBStore } from "@/lib/event-index-idb"
+import type { IndexedContract, IndexedEvent, IndexedEventArgs, IndexedEventName } from "@/lib/event-index-types"
+
+export type { IndexedContract, IndexedEvent, IndexedEventArgs, IndexedEventName } from "@/lib/event-index-types"
+
+// Blocks per eth_getLogs request; public RPCs commonly reject wider ranges
+const MAX_BLOCK_RANGE = 2000
+
+// Recently indexed block hashes kept with the cursor and re-checked on every sync to detect reorgs
+const CHECKPOINT_COUNT = 8
+
+const INDEXED_CONTRACTS: IndexedContract[] = [
+  "spayToken",
+  "etfToken",
+  "payrollProcessor",
+  "collateralManager",
+  "investmentManager",
+  "savingsManager",
+  "roleManager",
+]
+
+export type StoredLog = {
+  id: string
+  contract: IndexedContract
+  event: string
+  blockNumber: number
+  blockHash: string
+  logIndex: number
+  transactionHash: string
+  topics: string[]
+  data: string
+}
+
+type Checkpoint = { number: number; hash: string }
+
+// Every contract is fetched in the same eth_getLogs call, so one cursor covers them all
+export type IndexCursor = {
+  // Lowercased contract addresses the index was built from; a redeployment starts it over
+  addresses: string[]
+  startBlock: number
+  lastBlock: number
+  checkpoints: Checkpoint[]
+}
+
+export type StoredBlock = { number: number; hash: string; timestamp: number }
+
+// Where the index is kept. Each method's writes must land together or not at all.
+export interface EventIndexStore {
+  readCursor(): Promise<IndexCursor | null>
+  // Adds a range's logs and advances the cursor past it
+  append(logs: StoredLog[], cursor: IndexCursor): Promise<void>
+  // Drops logs and cached blocks above `cursor.lastBlock`, which is no longer canonical
+  rewind(cursor: IndexCursor): Promise<void>
+  // Drops every log and starts over from `cursor`
+  reset(cursor: IndexCursor): Promise<void>
+  readLogs(contract: IndexedContract, event: string): Promise<StoredLog[]>
+  readBlocks(numbers: number[]): Promise<StoredBlock[]>
+  writeBlocks(blocks: StoredBlock[]): Promise<void>
+}
+
+export type EventIndexStoreFactory = (chainId: number) => Promise<EventIndexStore>
+
+let storeFactory: EventIndexStoreFactory | null = null
+let store: Promise<EventIndexStore | null> | null = null
+
+// Server code registers a persistent store here (see lib/event-index-file-store.ts); the
+// browser defaults to IndexedDB
+export function setEventIndexStore(factory: EventIndexStoreFactory) {
+  storeFactory = factory
+  store = null
+}
+
+// One store per chain, so a local devnet never mixes with the public network. Null when
+// there is neither, in which case queries read straight from the node.
+function openStore(): Promise<EventIndexStore | null> {
+  const factory = storeFactory ?? (typeof indexedDB !== "undefined" ? openIndexedDBStore : null)
+  if (!factory) return Promise.resolve(null)
+  if (!store) {
+    store = getReadOnlyContracts()
+      .provider.getNetwork()
+      .then(({ chainId }) => factory(chainId))
+    store.catch(() => {
+      store = null
+    })
+  }
+  return store
+}
+
+function decodeLog(contract: IndexedContract, log: { topics: string[]; data: string }) {
+  try {
+    const parsed = getReadOnlyContracts()[contract].interface.parseLog(log)
+    // Name the args after the ABI inputs; overloaded events differ in which inputs they have
+    const args = Object.fromEntries(parsed.eventFragment.inputs.map((input, index) => [input.name, parsed.args[index]]))
+    return { event: parsed.name, args }
+  } catch {
+    return null
+  }
+}
+
+function getIndexedAddresses(): string[] {
+  const contracts = getReadOnlyContracts()
+  return INDEXED_CONTRACTS.map((contract) => contracts[contract].address.toLowerCase())
+}
+
+// First block with code at `address`, found by bisecting historical eth_getCode. A contract
+// missing at `latestBlock` has no history to index.
+async function findDeploymentBlock(provider: ethers.providers.Provider, address: string, latestBlock: number) {
+  if ((await provider.getCode(address, latestBlock)) === "0x") return latestBlock
+
+  let low = 0
+  let high = latestBlock
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2)
+    if ((await provider.getCode(address, middle)) === "0x") low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+let deploymentBlock: Promise<number> | null = null
+
+// NEXT_PUBLIC_INDEX_START_BLOCK when set, otherwise the block the first protocol contract was
+// deployed in. Finding that needs a node that serves historical state.
+function resolveStartBlock(): Promise<number> {
+  if (INDEX_START_BLOCK !== null) return Promise.resolve(INDEX_START_BLOCK)
+  if (!deploymentBlock) {
+    const { provider } = getReadOnlyContracts()
+    deploymentBlock = provider
+      .getBlockNumber()
+      .then((latestBlock) =>
+        Promise.all(getIndexedAddresses().map((address) => findDeploymentBlock(provider, address, latestBlock))),
+      )
+      .then((blocks) => Math.min(...blocks))
+      .catch((error) => {
+        deploymentBlock = null
+        throw new Error(`Failed to find the contracts' deployment block, set NEXT_PUBLIC_INDEX_START_BLOCK: ${error}`)
+      })
+  }
+  return deploymentBlock
+}
+
+// Logs from every address in one eth_getLogs call; ethers' getLogs only takes a single address
+async function getLogs(addresses: string[], fromBlock: number, toBlock: number): Promise<ethers.providers.Log[]> {
+  const { provider } = getReadOnlyContracts()
+  const logs: unknown[] = await provider.send("eth_getLogs", [
+    { address: addresses, fromBlock: ethers.utils.hexValue(fromBlock), toBlock: ethers.utils.hexValue(toBlock) },
+  ])
+  return logs.map((log) => provider.formatter.filterLog(log))
+}
+
+async function syncStore(store: EventIndexStore) {
+  const { provider } = getReadOnlyContracts()
+  const addresses = getIndexedAddresses()
+  const contractAt = new Map(addresses.map((address, index) => [address, INDEXED_CONTRACTS[index]]))
+  const latestBlock = await provider.getBlockNumber()
+
+  const hashes = new Map<number, Promise<string | null>>()
+  const getBlockHash = (blockNumber: number) => {
+    if (!hashes.has(blockNumber)) {
+      hashes.set(
+        blockNumber,
+        provider.getBlock(blockNumber).then((block) => block?.hash ?? null),
+      )
+    }
+    return hashes.get(blockNumber)!
+  }
+
+  let cursor = await store.readCursor()
+
+  // A new index, or redeployed contracts, start a fresh history
+  if (!cursor || cursor.addresses.join() !== addresses.join()) {
+    const startBlock = await resolveStartBlock()
+    cursor = { addresses, startBlock, lastBlock: startBlock - 1, checkpoints: [] }
+    await store.reset(cursor)
+  }
+
+  // Walk back from the newest checkpoint until one still matches the canonical chain
+  const kept = [...cursor.checkpoints]
+  while (kept.length && (await getBlockHash(kept[kept.length - 1].number)) !== kept[kept.length - 1].hash) {
+    kept.pop()
+  }
+  if (kept.length < cursor.checkpoints.length) {
+    const safeBlock = kept.length ? kept[kept.length - 1].number : cursor.startBlock - 1
+    console.warn(`Reorg detected; re-indexing from block ${safeBlock + 1}`)
+    cursor = { ...cursor, lastBlock: safeBlock, checkpoints: kept }
+    await store.rewind(cursor)
+  }
+
+  for (let fromBlock = cursor.lastBlock + 1; fromBlock <= latestBlock; fromBlock += MAX_BLOCK_RANGE) {
+    const toBlock = Math.min(fromBlock + MAX_BLOCK_RANGE - 1, latestBlock)
+    const [logs, tipHash] = await Promise.all([getLogs(addresses, fromBlock, toBlock), getBlockHash(toBlock)])
+
+    cursor = {
+      ...cursor,
+      lastBlock: toBlock,
+      checkpoints: tipHash ? [...cursor.checkpoints, { number: toBlock, hash: tipHash }].slice(-CHECKPOINT_COUNT) : cursor.checkpoints,
+    }
+
+    const stored = logs.flatMap((log): StoredLog[] => {
+      const contract = contractAt.get(log.address.toLowerCase())
+      const decoded = contract && decodeLog(contract, log)
+      if (!contract || !decoded) return []
+      return [
+        {
+          id: `${contract}:${log.blockNumber}:${log.logIndex}`,
+          contract,
+          event: decoded.event,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          logIndex: log.logIndex,
+          transactionHash: log.transactionHash,
+          topics: log.topics,
+          data: log.data,
+        },
+      ]
+    })
+    await store.append(stored, cursor)
+  }
+}
+
+let activeSync: Promise<void> | null = null
+
+// Brings the index up to the latest block. Concurrent callers share one sync.
+export function syncEventIndex(): Promise<void> {
+  if (!activeSync) {
+    activeSync = (async () => {
+      const store = await openStore()
+      if (store) await syncStore(store)
+    })().finally(() => {
+      activeSync = null
+    })
+  }
+  return activeSync
+}
+
+const matches = (args: Record<string, unknown>, where: Record<string, string | undefined>) =>
+  Object.entries(where).every(
+    ([key, value]) => value === undefined || String(args[key]).toLowerCase() === value.toLowerCase(),
+  )
+
+// Without an index (or if it fails) read straight from the node in bounded ranges, letting the
+// node filter on the event's topic (any of them, for overloaded events)
+async function queryFromChain(contract: IndexedContract, event: string) {
+  const { provider, [contract]: instance } = getReadOnlyContracts()
+  const fragments = Object.values(instance.interface.events).filter((fragment) => fragment.name === event)
+  const topics = [fragments.map((fragment) => instance.interface.getEventTopic(fragment))]
+  const [startBlock, latestBlock] = await Promise.all([resolveStartBlock(), provider.getBlockNumber()])
+  const logs: ethers.providers.Log[] = []
+  for (let fromBlock = startBlock; fromBlock <= latestBlock; fromBlock += MAX_BLOCK_RANGE) {
+    const toBlock = Math.min(fromBlock + MAX_BLOCK_RANGE - 1, latestBlock)
+    logs.push(...(await provider.getLogs({ address: instance.address, topics, fromBlock, toBlock })))
+  }
+  return logs
+}
+
+// Events of one type in chain order, optionally narrowed by argument values (addresses compare case-insensitively)
+export async function queryIndexedEvents<C extends IndexedContract, E extends IndexedEventName<C>>(
+  contract: C,
+  event: E,
+  where: Partial<Record<keyof IndexedEventArgs[C][E], string>> = {},
+): Promise<IndexedEvent<C, E>[]> {
+  let logs: { topics: string[]; data: string; blockNumber: number; blockHash: string; logIndex: number; transactionHash: string }[]
+
+  const store = await openStore().catch((error) => {
+    console.warn("Event index unavailable, querying the chain directly:", error)
+    return null
+  })
+  if (!store) {
+    logs = await queryFromChain(contract, event)
+  } else {
+    try {
+      await syncEventIndex()
+      logs = await store.readLogs(contract, event)
+    } catch (error) {
+      console.warn("Event index unavailable, querying the chain directly:", error)
+      logs = await queryFromChain(contract, event)
+    }
+  }
+
+  return logs
+    .map((log) => ({ log, decoded: decodeLog(contract, log) }))
+    .filter(({ decoded }) => decoded && matches(decoded.args, where as Record<string, string | undefined>))
+    .map(({ log, decoded }) => ({
+      contract,
+      event,
+      args: decoded!.args as IndexedEventArgs[C][E],
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.logIndex,
+      transactionHash: log.transactionHash,
+    }))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+}
+
+// Block timestamps, cached alongside the logs since history views need one per row
+export async function getBlockTimestamps(blockNumbers: number[]): Promise<Map<number, number>> {
+  const { provider } = getReadOnlyContracts()
+  const unique = Array.from(new Set(blockNumbers))
+  const timestamps = new Map<number, number>()
+
+  const store = await openStore().catch(() => null)
+  if (store) {
+    const cached = await store.readBlocks(unique)
+    cached.forEach((block) => timestamps.set(block.number, block.timestamp))
+  }
+
+  const missing = unique.filter((number) => !timestamps.has(number))
+  const fetched = (await Promise.all(missing.map((number) => provider.getBlock(number)))).filter(
+    (block): block is ethers.providers.Block => !!block,
+  )
+  fetched.forEach((block) => timestamps.set(block.number, block.timestamp))
+
+  if (store && fetched.length) {
+    await store.writeBlocks(fetched.map((block) => ({ number: block.number, hash: block.hash, timestamp: block.timestamp })))
+  }
+
+  return timestamps
+}
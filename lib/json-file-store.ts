@@ -0,0 +1,36 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// A JSON object of `T` values by key, persisted to a single file, for the small server-side stores under .data/
+export function createJsonFileStore<T>(storePath: string) {
+  type Store = Record<string, T>
+
+  async function read(): Promise<Store> {
+    try {
+      return JSON.parse(await fs.readFile(storePath, "utf8")) as Store
+    } catch (error: any) {
+      if (error.code === "ENOENT") return {}
+      throw error
+    }
+  }
+
+  // Serialize writes so concurrent requests don't clobber each other's read-modify-write
+  let writeQueue: Promise<unknown> = Promise.resolve()
+
+  async function update<R>(apply: (store: Store) => R): Promise<R> {
+    const run = writeQueue.then(async () => {
+      const store = await read()
+      const result = apply(store)
+      await fs.mkdir(path.dirname(storePath), { recursive: true })
+      // Write to a temp file and rename so a crash never leaves a half-written store
+      const tempPath = `${storePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(store, null, 2))
+      await fs.rename(tempPath, storePath)
+      return result
+    })
+    writeQueue = run.catch(() => undefined)
+    return run
+  }
+
+  return { read, update }
+}
@@ -0,0 +1,63 @@
+// Calendar of pay runs: past disbursements from PayrollDisbursed history and projected
+// pay dates from each employee's lastPaymentTimestamp + paymentInterval.
+
+import { ethers } from "ethers"
+import type { RosterEmployee } from "@/lib/employee-roster"
+import type { PayrollHistoryEntry } from "@/lib/payroll-history"
+
+// "overdue" is a projected date already in the past that no disbursement has covered
+export type PayrollCalendarStatus = "paid" | "upcoming" | "overdue"
+
+export type PayrollCalendarEntry = {
+  employee: string
+  grossAmount: ethers.BigNumber
+  timestamp: number
+  status: PayrollCalendarStatus
+  txHash?: string
+}
+
+// Guards against a tiny interval flooding the calendar with projections
+const MAX_PROJECTIONS_PER_EMPLOYEE = 400
+
+// Local calendar day, so entries line up with the days the calendar renders
+export const dayKey = (date: Date | number) =>
+  (typeof date === "number" ? new Date(date * 1000) : date).toDateString()
+
+// Entries from `from` to `until` (unix seconds), in time order
+export function buildPayrollCalendar(
+  employees: RosterEmployee[],
+  history: PayrollHistoryEntry[],
+  from: number,
+  until: number,
+  now = Math.floor(Date.now() / 1000),
+): PayrollCalendarEntry[] {
+  const entries: PayrollCalendarEntry[] = history
+    .filter((entry) => entry.timestamp >= from && entry.timestamp <= until)
+    .map((entry) => ({
+      employee: entry.employee,
+      grossAmount: entry.grossAmount,
+      timestamp: entry.timestamp,
+      status: "paid",
+      txHash: entry.txHash,
+    }))
+
+  for (const employee of employees) {
+    if (employee.nextPaymentTimestamp === null || employee.paymentInterval <= 0) continue
+
+    // lastPaymentTimestamp only advances on payment, so each cycle since then shows as missed until one lands
+    let timestamp = employee.nextPaymentTimestamp
+    if (timestamp < from) {
+      timestamp += Math.ceil((from - timestamp) / employee.paymentInterval) * employee.paymentInterval
+    }
+    for (let i = 0; i < MAX_PROJECTIONS_PER_EMPLOYEE && timestamp <= until; i++, timestamp += employee.paymentInterval) {
+      entries.push({
+        employee: employee.address,
+        grossAmount: employee.rawAmount,
+        timestamp,
+        status: timestamp < now ? "overdue" : "upcoming",
+      })
+    }
+  }
+
+  return entries.sort((a, b) => a.timestamp - b.timestamp)
+}
@@ -0,0 +1,74 @@
+// Batch payroll disbursement, shared by the employer dashboard and the server-side scheduler.
+
+import { ethers } from "ethers"
+import { getRevertReason } from "@/WEB3/blockchainIntergation"
+import { PAYROLL_BATCH_SIZE } from "@/config/blockchain"
+import { formatTokenAmount } from "@/lib/utils"
+
+export type PayrollDisbursement = {
+  employee: string
+  grossAmount: string
+  taxAmount: string
+  feeAmount: string
+  netAmount: string
+  txHash: string
+}
+
+export type SkippedPayroll = {
+  employee: string
+  reason: string
+}
+
+export type PayrollRunResult = {
+  disbursed: PayrollDisbursement[]
+  skipped: SkippedPayroll[]
+  failed: SkippedPayroll[]
+}
+
+// PayrollDisbursed events in a disbursePayrollBatch receipt
+function decodeDisbursements(receipt: ethers.ContractReceipt, decimals: number): PayrollDisbursement[] {
+  return (receipt.events ?? [])
+    .filter((event) => event.event === "PayrollDisbursed" && event.args)
+    .map((event) => {
+      // The contract emits the net amount; gross is net + tax + fee
+      const { employee, amount, taxAmount, feeAmount } = event.args!
+      return {
+        employee,
+        grossAmount: formatTokenAmount(amount.add(taxAmount).add(feeAmount), decimals),
+        taxAmount: formatTokenAmount(taxAmount, decimals),
+        feeAmount: formatTokenAmount(feeAmount, decimals),
+        netAmount: formatTokenAmount(amount, decimals),
+        txHash: receipt.transactionHash,
+      }
+    })
+}
+
+// Pays `employees` in disbursePayrollBatch calls of PAYROLL_BATCH_SIZE. `submitBatch` sends one call
+// from the paying wallet and resolves to its receipt. A failed batch fails only its own employees.
+export async function disbursePayrollBatches(
+  employees: string[],
+  decimals: number,
+  submitBatch: (chunk: string[]) => Promise<ethers.ContractReceipt>,
+): Promise<PayrollRunResult> {
+  const result: PayrollRunResult = { disbursed: [], skipped: [], failed: [] }
+
+  for (let i = 0; i < employees.length; i += PAYROLL_BATCH_SIZE) {
+    const chunk = employees.slice(i, i + PAYROLL_BATCH_SIZE)
+    try {
+      const disbursed = decodeDisbursements(await submitBatch(chunk), decimals)
+      result.disbursed.push(...disbursed)
+
+      // The batch silently skips anyone who became ineligible since the caller checked
+      const paid = new Set(disbursed.map(({ employee }) => employee.toLowerCase()))
+      chunk
+        .filter((employee) => !paid.has(employee.toLowerCase()))
+        .forEach((employee) => result.skipped.push({ employee, reason: "Skipped by contract (not due)" }))
+    } catch (error) {
+      console.error("Payroll batch failed:", error)
+      const reason = getRevertReason(error) || "Transaction failed"
+      chunk.forEach((employee) => result.failed.push({ employee, reason }))
+    }
+  }
+
+  return result
+}
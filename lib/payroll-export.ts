@@ -0,0 +1,182 @@
+// Roster and payroll history exports for accounting (CSV), integrations (JSON)
+// and a printable summary the browser can save as PDF.
+
+import { ethers } from "ethers"
+import type { RosterEmployee } from "@/lib/employee-roster"
+import { explorerTxUrl, type PayrollHistoryEntry } from "@/lib/payroll-history"
+import { toCsv } from "@/lib/csv"
+import { formatDate, formatTokenAmount } from "@/lib/utils"
+
+export type ExportFormat = "csv" | "json" | "pdf"
+
+// Resolves an employee wallet to a display name, if the directory has one
+type NameLookup = (address: string) => string | undefined
+
+const isoTime = (timestamp: number | null) => (timestamp ? new Date(timestamp * 1000).toISOString() : "")
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoking in the same tick can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Plain decimal strings (no thousands separators) so spreadsheets parse them as numbers
+function rosterRecords(employees: RosterEmployee[], decimals: number) {
+  return employees.map((employee) => ({
+    name: employee.name ?? "",
+    wallet: employee.address,
+    amount: ethers.utils.formatUnits(employee.rawAmount, decimals),
+    schedule: employee.schedule,
+    intervalSeconds: employee.paymentInterval,
+    status: employee.status,
+    lastPaidAt: employee.lastPaid === "Not yet paid" ? "" : isoTime(employee.lastPaymentTimestamp),
+    nextPaymentAt: isoTime(employee.nextPaymentTimestamp),
+  }))
+}
+
+function historyRecords(entries: PayrollHistoryEntry[], decimals: number, nameOf: NameLookup) {
+  return entries.map((entry) => ({
+    blockTime: isoTime(entry.timestamp),
+    blockNumber: entry.blockNumber,
+    employeeName: nameOf(entry.employee) ?? "",
+    employee: entry.employee,
+    gross: ethers.utils.formatUnits(entry.grossAmount, decimals),
+    tax: ethers.utils.formatUnits(entry.taxAmount, decimals),
+    fee: ethers.utils.formatUnits(entry.feeAmount, decimals),
+    net: ethers.utils.formatUnits(entry.netAmount, decimals),
+    txHash: entry.txHash,
+  }))
+}
+
+function recordsToCsv(records: Record<string, string | number>[]) {
+  if (!records.length) return ""
+  const columns = Object.keys(records[0])
+  return toCsv([columns, ...records.map((record) => columns.map((column) => record[column]))])
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!)
+
+// Opens a print-ready page; the browser's "Save as PDF" produces the PDF
+export function printSummary(title: string, subtitle: string, headers: string[], rows: string[][], totals?: string[]) {
+  const printWindow = window.open("", "_blank")
+  if (!printWindow) {
+    throw new Error("Allow pop-ups for this site to print the summary")
+  }
+
+  const cells = (values: string[], tag: "td" | "th") =>
+    values.map((value) => `<${tag}>${escapeHtml(value)}</${tag}>`).join("")
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 32px; color: #111; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  p { color: #555; margin: 0 0 24px; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+  th { background: #f4f4f5; }
+  tfoot td { font-weight: 600; border-top: 2px solid #111; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(subtitle)}</p>
+<table>
+<thead><tr>${cells(headers, "th")}</tr></thead>
+<tbody>${rows.map((row) => `<tr>${cells(row, "td")}</tr>`).join("")}</tbody>
+${totals ? `<tfoot><tr>${cells(totals, "td")}</tr></tfoot>` : ""}
+</table>
+</body>
+</html>`)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+}
+
+export function exportRoster(employees: RosterEmployee[], decimals: number, format: ExportFormat, employer: string) {
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  if (format === "csv") {
+    downloadFile(`roster-${stamp}.csv`, recordsToCsv(rosterRecords(employees, decimals)), "text/csv")
+  } else if (format === "json") {
+    const payload = { employer, exportedAt: new Date().toISOString(), employees: rosterRecords(employees, decimals) }
+    downloadFile(`roster-${stamp}.json`, JSON.stringify(payload, null, 2), "application/json")
+  } else {
+    printSummary(
+      "Employee Roster",
+      `Employer ${employer} · ${employees.length} employees · exported ${formatDate(new Date())}`,
+      ["Name", "Wallet", "Amount (SPAY)", "Schedule", "Status", "Last Paid"],
+      employees.map((employee) => [
+        employee.name ?? "",
+        employee.address,
+        employee.amount,
+        employee.schedule,
+        employee.status,
+        employee.lastPaid,
+      ]),
+    )
+  }
+}
+
+export function exportPayrollHistory(
+  entries: PayrollHistoryEntry[],
+  decimals: number,
+  format: ExportFormat,
+  options: { employer: string; from: number; to: number; nameOf: NameLookup },
+) {
+  const { employer, from, to, nameOf } = options
+  const range = `${new Date(from * 1000).toISOString().slice(0, 10)}_${new Date(to * 1000).toISOString().slice(0, 10)}`
+
+  if (format === "csv") {
+    downloadFile(`payroll-${range}.csv`, recordsToCsv(historyRecords(entries, decimals, nameOf)), "text/csv")
+  } else if (format === "json") {
+    const payload = {
+      employer,
+      from: isoTime(from),
+      to: isoTime(to),
+      exportedAt: new Date().toISOString(),
+      disbursements: historyRecords(entries, decimals, nameOf).map((record, index) => ({
+        ...record,
+        explorerUrl: explorerTxUrl(entries[index].txHash),
+      })),
+    }
+    downloadFile(`payroll-${range}.json`, JSON.stringify(payload, null, 2), "application/json")
+  } else {
+    const sum = (pick: (entry: PayrollHistoryEntry) => ethers.BigNumber) =>
+      formatTokenAmount(
+        entries.reduce((total, entry) => total.add(pick(entry)), ethers.constants.Zero),
+        decimals,
+      )
+
+    printSummary(
+      "Payroll Summary",
+      `Employer ${employer} · ${formatDate(from)} – ${formatDate(to)} · ${entries.length} disbursements`,
+      ["Date", "Employee", "Gross", "Tax", "Fee", "Net", "Transaction"],
+      entries.map((entry) => [
+        formatDate(entry.timestamp),
+        nameOf(entry.employee) ?? entry.employee,
+        formatTokenAmount(entry.grossAmount, decimals),
+        formatTokenAmount(entry.taxAmount, decimals),
+        formatTokenAmount(entry.feeAmount, decimals),
+        formatTokenAmount(entry.netAmount, decimals),
+        entry.txHash,
+      ]),
+      [
+        "Total",
+        "",
+        sum((entry) => entry.grossAmount),
+        sum((entry) => entry.taxAmount),
+        sum((entry) => entry.feeAmount),
+        sum((entry) => entry.netAmount),
+        "",
+      ],
+    )
+  }
+}
@@ -0,0 +1,50 @@
+// PayrollDisbursed history read from chain logs, with block times attached.
+
+import { ethers } from "ethers"
+import { DEFAULT_CHAIN } from "@/config/blockchain"
+import { getBlockTimestamps, queryIndexedEvents } from "@/lib/event-index"
+
+export type PayrollHistoryEntry = {
+  employer: string
+  employee: string
+  // The contract emits the net amount; gross is net + tax + fee
+  grossAmount: ethers.BigNumber
+  taxAmount: ethers.BigNumber
+  feeAmount: ethers.BigNumber
+  netAmount: ethers.BigNumber
+  txHash: string
+  blockNumber: number
+  logIndex: number
+  timestamp: number
+}
+
+export function explorerTxUrl(txHash: string) {
+  return `${DEFAULT_CHAIN.blockExplorers.default.url}/tx/${txHash}`
+}
+
+// Newest first. Pass an employer, an employee, or both to narrow the logs.
+export async function fetchPayrollHistory(filter: { employer?: string; employee?: string }): Promise<PayrollHistoryEntry[]> {
+  const events = await queryIndexedEvents("payrollProcessor", "PayrollDisbursed", {
+    employer: filter.employer,
+    employee: filter.employee,
+  })
+  const timestamps = await getBlockTimestamps(events.map((event) => event.blockNumber))
+
+  return events
+    .map((event): PayrollHistoryEntry => {
+      const { employer, employee, amount, taxAmount, feeAmount } = event.args
+      return {
+        employer,
+        employee,
+        grossAmount: amount.add(taxAmount).add(feeAmount),
+        taxAmount,
+        feeAmount,
+        netAmount: amount,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        timestamp: timestamps.get(event.blockNumber) ?? 0,
+      }
+    })
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+}
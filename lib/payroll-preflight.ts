@@ -0,0 +1,249 @@
+// Pre-flight checks for a payroll run: everything disbursePayrollBatch needs to succeed,
+// read up front so a doomed transaction is never sent.
+
+import { ethers } from "ethers"
+import { getPayrollSchedule, getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { PAUSABLE_ACTIONS, fetchContractStatuses, type ContractStatuses } from "@/lib/contract-status"
+import { PROTOCOL_CONTRACT_LABELS } from "@/lib/protocol-roles"
+
+export type PreflightEmployee = {
+  address: string
+  // Gross amount per payment; zero when no schedule is set
+  amount: ethers.BigNumber
+  nextPaymentTimestamp: number
+  isScheduled: boolean
+  isDue: boolean
+  isVerified: boolean
+}
+
+export type PayrollPreflight = {
+  employer: string
+  employees: PreflightEmployee[]
+  decimals: number
+  taxRateBps: number
+  feeRateBps: number
+  balance: ethers.BigNumber
+  allowance: ethers.BigNumber
+  hasEmployerRole: boolean
+  isEmployerVerified: boolean
+  // SPAY's verifyUser is admin-only; when the employer is that admin the KYC blockers can be fixed in place
+  canVerify: boolean
+  taxCollector: { address: string; isVerified: boolean }
+  feeCollector: { address: string; isVerified: boolean }
+  // Pause state of every contract; PAUSABLE_ACTIONS.payroll lists the ones a run needs
+  contractStatuses: ContractStatuses
+  chainTimestamp: number
+}
+
+export type PreflightFix =
+  | { kind: "approve"; amount: ethers.BigNumber }
+  | { kind: "verify"; address: string }
+  | { kind: "deselect"; employees: string[] }
+
+export type PreflightIssue = {
+  id: string
+  message: string
+  // Blockers would revert the transaction; the rest only mean someone won't be paid
+  blocking: boolean
+  fixes: PreflightFix[]
+}
+
+export type PreflightTotals = {
+  gross: ethers.BigNumber
+  tax: ethers.BigNumber
+  fee: ethers.BigNumber
+  net: ethers.BigNumber
+}
+
+export async function fetchPayrollPreflight(employer: string, employees: string[]): Promise<PayrollPreflight> {
+  const { provider, payrollProcessor, spayToken } = getReadOnlyContracts()
+
+  const [employerRole, adminRole, taxCollector, feeCollector] = await Promise.all([
+    payrollProcessor.EMPLOYER_ROLE(),
+    spayToken.DEFAULT_ADMIN_ROLE(),
+    payrollProcessor.taxCollector(),
+    payrollProcessor.feeCollector(),
+  ])
+
+  const [
+    decimals,
+    taxRateBps,
+    feeRateBps,
+    balance,
+    allowance,
+    hasEmployerRole,
+    isEmployerVerified,
+    canVerify,
+    isTaxCollectorVerified,
+    isFeeCollectorVerified,
+    contractStatuses,
+    latestBlock,
+  ] = await Promise.all([
+    spayToken.decimals(),
+    payrollProcessor.taxRateBps(),
+    payrollProcessor.feeRateBps(),
+    spayToken.balanceOf(employer),
+    spayToken.allowance(employer, payrollProcessor.address),
+    payrollProcessor.hasRole(employerRole, employer),
+    spayToken.isVerified(employer),
+    spayToken.hasRole(adminRole, employer),
+    spayToken.isVerified(taxCollector),
+    spayToken.isVerified(feeCollector),
+    fetchContractStatuses(),
+    provider.getBlock("latest"),
+  ])
+
+  const rows = await Promise.all(
+    employees.map(async (address): Promise<PreflightEmployee> => {
+      const [schedule, isVerified] = await Promise.all([getPayrollSchedule(address), spayToken.isVerified(address)])
+      const nextPaymentTimestamp = schedule.lastPaymentTimestamp.add(schedule.paymentInterval).toNumber()
+      const isScheduled = !schedule.amount.isZero()
+      return {
+        address,
+        amount: schedule.amount,
+        nextPaymentTimestamp,
+        isScheduled,
+        isDue: isScheduled && latestBlock.timestamp >= nextPaymentTimestamp,
+        isVerified,
+      }
+    }),
+  )
+
+  return {
+    employer,
+    employees: rows,
+    decimals,
+    taxRateBps: taxRateBps.toNumber(),
+    feeRateBps: feeRateBps.toNumber(),
+    balance,
+    allowance,
+    hasEmployerRole,
+    isEmployerVerified,
+    canVerify,
+    taxCollector: { address: taxCollector, isVerified: isTaxCollectorVerified },
+    feeCollector: { address: feeCollector, isVerified: isFeeCollectorVerified },
+    contractStatuses,
+    chainTimestamp: latestBlock.timestamp,
+  }
+}
+
+// Employees worth paying by default: scheduled, due and able to receive SPAY
+export const isReadyToPay = (employee: PreflightEmployee) => employee.isDue && employee.isVerified
+
+// Mirrors the contract's per-employee rounding: tax and fee are each floored per payment
+export function computePreflightTotals(preflight: PayrollPreflight, selected: PreflightEmployee[]): PreflightTotals {
+  return selected
+    .filter((employee) => employee.isDue)
+    .reduce(
+      (totals, { amount }) => {
+        const tax = amount.mul(preflight.taxRateBps).div(10000)
+        const fee = amount.mul(preflight.feeRateBps).div(10000)
+        return {
+          gross: totals.gross.add(amount),
+          tax: totals.tax.add(tax),
+          fee: totals.fee.add(fee),
+          net: totals.net.add(amount.sub(tax).sub(fee)),
+        }
+      },
+      { gross: ethers.constants.Zero, tax: ethers.constants.Zero, fee: ethers.constants.Zero, net: ethers.constants.Zero },
+    )
+}
+
+export function findPreflightIssues(
+  preflight: PayrollPreflight,
+  selected: PreflightEmployee[],
+  formatAmount: (value: ethers.BigNumber) => string,
+): PreflightIssue[] {
+  const issues: PreflightIssue[] = []
+  const { gross } = computePreflightTotals(preflight, selected)
+  const verifyFix = (address: string): PreflightFix[] => (preflight.canVerify ? [{ kind: "verify", address }] : [])
+
+  for (const contract of PAUSABLE_ACTIONS.payroll) {
+    const health = preflight.contractStatuses[contract]
+    if (health === "paused") {
+      issues.push({
+        id: `${contract}-paused`,
+        message: `${PROTOCOL_CONTRACT_LABELS[contract]} is paused`,
+        blocking: true,
+        fixes: [],
+      })
+    } else if (health === "unknown") {
+      issues.push({
+        id: `${contract}-status`,
+        message: `Could not read whether ${PROTOCOL_CONTRACT_LABELS[contract]} is paused`,
+        blocking: false,
+        fixes: [],
+      })
+    }
+  }
+  if (!preflight.hasEmployerRole) {
+    issues.push({
+      id: "employer-role",
+      message: "Your wallet does not have EMPLOYER_ROLE on PayrollProcessor",
+      blocking: true,
+      fixes: [],
+    })
+  }
+  if (!preflight.isEmployerVerified) {
+    issues.push({
+      id: "employer-kyc",
+      message: "Your wallet is not KYC-verified for SPAY",
+      blocking: true,
+      fixes: verifyFix(preflight.employer),
+    })
+  }
+  for (const [id, label, collector] of [
+    ["tax-collector-kyc", "tax", preflight.taxCollector],
+    ["fee-collector-kyc", "fee", preflight.feeCollector],
+  ] as const) {
+    if (!collector.isVerified) {
+      issues.push({
+        id,
+        message: `The ${label} collector ${collector.address} is not KYC-verified for SPAY`,
+        blocking: true,
+        fixes: verifyFix(collector.address),
+      })
+    }
+  }
+
+  // One unverified recipient reverts the whole batch
+  const unverified = selected.filter((employee) => employee.isDue && !employee.isVerified)
+  if (unverified.length) {
+    issues.push({
+      id: "employee-kyc",
+      message: `${unverified.length} selected ${unverified.length === 1 ? "employee is" : "employees are"} not KYC-verified`,
+      blocking: true,
+      fixes: [{ kind: "deselect", employees: unverified.map((employee) => employee.address) }],
+    })
+  }
+
+  if (preflight.balance.lt(gross)) {
+    issues.push({
+      id: "balance",
+      message: `Insufficient SPAY: ${formatAmount(preflight.balance)} available, ${formatAmount(gross)} needed`,
+      blocking: true,
+      fixes: [],
+    })
+  }
+  if (preflight.allowance.lt(gross)) {
+    issues.push({
+      id: "allowance",
+      message: `PayrollProcessor may spend ${formatAmount(preflight.allowance)}, ${formatAmount(gross)} needed`,
+      blocking: true,
+      fixes: [{ kind: "approve", amount: gross }],
+    })
+  }
+
+  // The batch skips these without reverting, but they still cost gas and won't be paid
+  const notDue = selected.filter((employee) => !employee.isDue)
+  if (notDue.length) {
+    issues.push({
+      id: "not-due",
+      message: `${notDue.length} selected ${notDue.length === 1 ? "employee is" : "employees are"} not scheduled or not due yet`,
+      blocking: false,
+      fixes: [{ kind: "deselect", employees: notDue.map((employee) => employee.address) }],
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,24 @@
+import path from "path"
+import type { ScheduledPayrollRun } from "@/lib/payroll-runs"
+import { createJsonFileStore } from "@/lib/json-file-store"
+
+// JSON file recording scheduler runs. Override with PAYROLL_RUNS_PATH, e.g. to a mounted volume.
+const STORE_PATH = process.env.PAYROLL_RUNS_PATH || path.join(process.cwd(), ".data", "payroll-runs.json")
+
+// Runs kept per employer; older ones are dropped
+const MAX_RUNS_PER_EMPLOYER = 100
+
+const store = createJsonFileStore<ScheduledPayrollRun[]>(STORE_PATH)
+
+// Newest first
+export async function listPayrollRuns(employer: string, limit = 20): Promise<ScheduledPayrollRun[]> {
+  const runs = await store.read()
+  return (runs[employer.toLowerCase()] ?? []).slice(0, limit)
+}
+
+export async function recordPayrollRun(run: ScheduledPayrollRun): Promise<void> {
+  await store.update((runs) => {
+    const key = run.employer.toLowerCase()
+    runs[key] = [run, ...(runs[key] ?? [])].slice(0, MAX_RUNS_PER_EMPLOYER)
+  })
+}
@@ -0,0 +1,32 @@
+// Results of server-side scheduled payroll runs, recorded per employer.
+
+import type { PayrollDisbursement, SkippedPayroll } from "@/lib/payroll-disbursement"
+
+export type ScheduledPayrollStatus = "success" | "partial" | "failed"
+
+export type ScheduledPayrollRun = {
+  id: string
+  employer: string
+  startedAt: string
+  finishedAt: string
+  status: ScheduledPayrollStatus
+  disbursed: PayrollDisbursement[]
+  failed: SkippedPayroll[]
+  // Set when the whole run was blocked, e.g. a missing role or too little SPAY
+  error?: string
+}
+
+export type PayrollSchedulerStatus = {
+  // Whether the scheduler holds a relayer key for this employer
+  automated: boolean
+  runs: ScheduledPayrollRun[]
+}
+
+export async function fetchPayrollSchedulerStatus(employer: string): Promise<PayrollSchedulerStatus> {
+  const response = await fetch(`/api/payroll/runs?employer=${encodeURIComponent(employer)}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load scheduled payroll runs: ${response.status}`)
+  }
+
+  return (await response.json()) as PayrollSchedulerStatus
+}
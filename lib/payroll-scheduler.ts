@@ -0,0 +1,149 @@
+// Server-side payroll scheduler. Disburses payroll for each configured relayer wallet's
+// employees once their payment interval has elapsed. Never import this from client code.
+
+import { ethers } from "ethers"
+import { getPayrollSchedule, getReadOnlyContracts, getRevertReason } from "@/WEB3/blockchainIntergation"
+import { fetchRosterAddresses } from "@/lib/employee-roster"
+import { setEventIndexStore } from "@/lib/event-index"
+import { openFileIndexStore } from "@/lib/event-index-file-store"
+import { disbursePayrollBatches } from "@/lib/payroll-disbursement"
+import { recordPayrollRun } from "@/lib/payroll-run-store"
+import type { ScheduledPayrollRun } from "@/lib/payroll-runs"
+import { formatTokenAmount } from "@/lib/utils"
+
+// Each tick reads the roster from events. Keep the index on disk so ticks only fetch new blocks
+// instead of rescanning the chain from the deployment block.
+setEventIndexStore(openFileIndexStore)
+
+// PayrollProcessor pays from msg.sender, so each relayer key is an employer wallet (or one
+// holding EMPLOYER_ROLE) that holds the SPAY and has approved PayrollProcessor to spend it.
+// PAYROLL_RELAYER_KEYS is a comma-separated list of private keys.
+function getRelayerWallets(): ethers.Wallet[] {
+  const { provider } = getReadOnlyContracts()
+  return (process.env.PAYROLL_RELAYER_KEYS || "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((key) => new ethers.Wallet(key, provider))
+}
+
+export function isAutomatedEmployer(employer: string): boolean {
+  return getRelayerWallets().some((wallet) => wallet.address.toLowerCase() === employer.toLowerCase())
+}
+
+async function runForEmployer(wallet: ethers.Wallet): Promise<ScheduledPayrollRun | null> {
+  const { provider, payrollProcessor, spayToken } = getReadOnlyContracts()
+  const employer = wallet.address
+  const startedAt = new Date().toISOString()
+  const run: ScheduledPayrollRun = {
+    id: `${employer.toLowerCase()}-${Date.now()}`,
+    employer,
+    startedAt,
+    finishedAt: startedAt,
+    status: "success",
+    disbursed: [],
+    failed: [],
+  }
+
+  try {
+    const employerRole = await payrollProcessor.EMPLOYER_ROLE()
+    const [hasRole, paused, latestBlock, decimals, employees] = await Promise.all([
+      payrollProcessor.hasRole(employerRole, employer),
+      payrollProcessor.paused(),
+      provider.getBlock("latest"),
+      spayToken.decimals(),
+      fetchRosterAddresses(employer),
+    ])
+
+    const due: string[] = []
+    let totalDue = ethers.constants.Zero
+    for (const employee of employees) {
+      const schedule = await getPayrollSchedule(employee)
+      const nextPayment = schedule.lastPaymentTimestamp.add(schedule.paymentInterval).toNumber()
+      if (!schedule.amount.isZero() && latestBlock.timestamp >= nextPayment) {
+        due.push(employee)
+        totalDue = totalDue.add(schedule.amount)
+      }
+    }
+
+    // Nothing to pay is the common case on most ticks and isn't worth recording
+    if (due.length === 0) return null
+
+    if (!hasRole) throw new Error("Relayer wallet does not have EMPLOYER_ROLE on PayrollProcessor")
+    if (paused) throw new Error("PayrollProcessor is paused")
+
+    const [balance, allowance] = await Promise.all([
+      spayToken.balanceOf(employer),
+      spayToken.allowance(employer, payrollProcessor.address),
+    ])
+    const spay = (value: ethers.BigNumber) => `${formatTokenAmount(value, decimals)} SPAY`
+    if (balance.lt(totalDue)) {
+      throw new Error(`Insufficient SPAY balance: ${spay(balance)} available, ${spay(totalDue)} due`)
+    }
+    if (allowance.lt(totalDue)) {
+      throw new Error(`Insufficient SPAY allowance for PayrollProcessor: ${spay(allowance)} approved, ${spay(totalDue)} due`)
+    }
+
+    const processor = payrollProcessor.connect(wallet)
+    const { disbursed, failed } = await disbursePayrollBatches(due, decimals, async (chunk) =>
+      (await processor.disbursePayrollBatch(chunk)).wait(),
+    )
+    // Anyone a batch skipped as not due is picked up again on a later tick
+    run.disbursed = disbursed
+    run.failed = failed
+
+    if (run.failed.length > 0) {
+      run.status = run.disbursed.length > 0 ? "partial" : "failed"
+    }
+  } catch (error: any) {
+    run.status = "failed"
+    run.error = getRevertReason(error) || error?.message || String(error)
+  }
+
+  run.finishedAt = new Date().toISOString()
+  return run
+}
+
+// Logs a failed run and posts it to PAYROLL_ALERT_WEBHOOK_URL (Slack-compatible `text` payload) if set
+async function alertFailure(run: ScheduledPayrollRun) {
+  const details = run.error ?? run.failed.map(({ employee, reason }) => `${employee}: ${reason}`).join("; ")
+  const message = `Scheduled payroll ${run.status} for ${run.employer} (${run.disbursed.length} paid, ${run.failed.length} failed): ${details}`
+  console.error(message)
+
+  const webhookUrl = process.env.PAYROLL_ALERT_WEBHOOK_URL
+  if (!webhookUrl) return
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: message }),
+    })
+    if (!response.ok) throw new Error(`Webhook responded ${response.status}`)
+  } catch (error) {
+    console.error("Failed to send payroll alert:", error)
+  }
+}
+
+let activeRun: Promise<ScheduledPayrollRun[]> | null = null
+
+// Pays everyone due for every configured employer. A cron tick that arrives while a
+// previous run is still confirming shares that run instead of double-submitting.
+export function runScheduledPayroll(): Promise<ScheduledPayrollRun[]> {
+  if (!activeRun) {
+    activeRun = (async () => {
+      const runs: ScheduledPayrollRun[] = []
+      for (const wallet of getRelayerWallets()) {
+        const run = await runForEmployer(wallet)
+        if (!run) continue
+
+        await recordPayrollRun(run).catch((error) => console.error("Failed to record payroll run:", error))
+        if (run.status !== "success") await alertFailure(run)
+        runs.push(run)
+      }
+      return runs
+    })().finally(() => {
+      activeRun = null
+    })
+  }
+  return activeRun
+}
@@ -0,0 +1,111 @@
+// Employee payslips built from PayrollDisbursed events.
+
+import { ethers } from "ethers"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { describeInterval } from "@/lib/employee-roster"
+import { queryIndexedEvents } from "@/lib/event-index"
+import { explorerTxUrl, fetchPayrollHistory, type PayrollHistoryEntry } from "@/lib/payroll-history"
+import { printSummary } from "@/lib/payroll-export"
+import { formatBps, formatDate, formatTokenAmount } from "@/lib/utils"
+
+export type Payslip = PayrollHistoryEntry & {
+  // Rates in force when this payment was made, in basis points
+  taxRateBps: number
+  feeRateBps: number
+  paymentInterval: number
+  periodStart: number
+  periodEnd: number
+  explorerUrl: string
+}
+
+type RateHistory = {
+  // Rate before the first indexed update
+  initialBps: number
+  updates: { blockNumber: number; logIndex: number; rateBps: number }[]
+}
+
+// Rate changes from TaxRateUpdated/FeeRateUpdated, in chain order. The starting rate is read just
+// before the first update; with no updates (or a node without history) the current rate applies.
+async function fetchRateHistory(event: "TaxRateUpdated" | "FeeRateUpdated"): Promise<RateHistory> {
+  const { payrollProcessor } = getReadOnlyContracts()
+  const readRate = (overrides: { blockTag?: number } = {}) =>
+    event === "TaxRateUpdated" ? payrollProcessor.taxRateBps(overrides) : payrollProcessor.feeRateBps(overrides)
+
+  const updates = (await queryIndexedEvents("payrollProcessor", event)).map((update) => ({
+    blockNumber: update.blockNumber,
+    logIndex: update.logIndex,
+    rateBps: update.args.newRateBps.toNumber(),
+  }))
+
+  let initial: ethers.BigNumber
+  try {
+    initial = updates.length ? await readRate({ blockTag: updates[0].blockNumber - 1 }) : await readRate()
+  } catch (error) {
+    console.error(`Failed to read the rate before the first ${event}:`, error)
+    initial = await readRate()
+  }
+  return { initialBps: initial.toNumber(), updates }
+}
+
+// The rate in force when a payment was made: the last update before it in chain order
+function rateAt(history: RateHistory, payment: { blockNumber: number; logIndex: number }) {
+  const before = history.updates.filter(
+    (update) =>
+      update.blockNumber < payment.blockNumber ||
+      (update.blockNumber === payment.blockNumber && update.logIndex < payment.logIndex),
+  )
+  return before.length ? before[before.length - 1].rateBps : history.initialBps
+}
+
+// Payslips for an employee, newest first
+export async function fetchPayslips(employee: string): Promise<Payslip[]> {
+  const [history, schedules, taxRates, feeRates] = await Promise.all([
+    fetchPayrollHistory({ employee }),
+    queryIndexedEvents("payrollProcessor", "PayrollScheduleSet", { employee }),
+    fetchRateHistory("TaxRateUpdated"),
+    fetchRateHistory("FeeRateUpdated"),
+  ])
+
+  return history.map((entry): Payslip => {
+    // The pay period uses the interval of the schedule in force when the payment was made
+    const schedule = schedules
+      .filter((event) => event.blockNumber <= entry.blockNumber)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)[0]
+    const paymentInterval = schedule ? schedule.args.interval.toNumber() : 0
+
+    return {
+      ...entry,
+      taxRateBps: rateAt(taxRates, entry),
+      feeRateBps: rateAt(feeRates, entry),
+      paymentInterval,
+      periodStart: entry.timestamp - paymentInterval,
+      periodEnd: entry.timestamp,
+      explorerUrl: explorerTxUrl(entry.txHash),
+    }
+  })
+}
+
+export function printPayslip(payslip: Payslip, decimals: number, employeeName?: string) {
+  const amount = (value: ethers.BigNumber) => `${formatTokenAmount(value, decimals)} SPAY`
+
+  printSummary(
+    "Payslip",
+    `${employeeName ? `${employeeName} · ` : ""}${payslip.employee} · paid ${formatDate(payslip.timestamp)}`,
+    ["Item", "Details"],
+    [
+      ["Employer", payslip.employer],
+      [
+        "Pay period",
+        payslip.paymentInterval
+          ? `${formatDate(payslip.periodStart)} – ${formatDate(payslip.periodEnd)} (${describeInterval(payslip.paymentInterval)})`
+          : formatDate(payslip.periodEnd),
+      ],
+      ["Gross pay", amount(payslip.grossAmount)],
+      [`Tax withheld (${formatBps(payslip.taxRateBps)})`, `-${amount(payslip.taxAmount)}`],
+      [`Platform fee (${formatBps(payslip.feeRateBps)})`, `-${amount(payslip.feeAmount)}`],
+      ["Transaction", payslip.txHash],
+      ["Explorer", payslip.explorerUrl],
+    ],
+    ["Net received", amount(payslip.netAmount)],
+  )
+}
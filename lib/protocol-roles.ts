@@ -0,0 +1,113 @@
+// Role holders across the protocol contracts, replayed from RoleGranted/RoleRevoked logs.
+
+import { ethers } from "ethers"
+import { ADMIN_ROLE, DEFAULT_ADMIN_ROLE, checkRole, type ProtocolContractName } from "@/WEB3/roleAuthentication"
+import { queryIndexedEvents } from "@/lib/event-index"
+
+export const PROTOCOL_CONTRACT_LABELS: Record<ProtocolContractName, string> = {
+  spayToken: "SPAY Stablecoin",
+  etfToken: "ETF Token",
+  payrollProcessor: "Payroll Processor",
+  collateralManager: "Collateral Manager",
+  investmentManager: "Investment Manager",
+  savingsManager: "Savings Manager",
+  roleManager: "Role Manager",
+}
+
+export const PROTOCOL_CONTRACTS = Object.keys(PROTOCOL_CONTRACT_LABELS) as ProtocolContractName[]
+
+// Roles each contract defines, as declared in WEB3/contracts
+export const CONTRACT_ROLES: Record<ProtocolContractName, string[]> = {
+  spayToken: ["DEFAULT_ADMIN_ROLE", "MINTER_ROLE", "BURNER_ROLE", "PAUSER_ROLE"],
+  etfToken: ["DEFAULT_ADMIN_ROLE", "MINTER_ROLE", "BURNER_ROLE", "PAUSER_ROLE"],
+  payrollProcessor: ["DEFAULT_ADMIN_ROLE", "EMPLOYER_ROLE", "PAUSER_ROLE"],
+  collateralManager: ["DEFAULT_ADMIN_ROLE", "MANAGER_ROLE", "PAUSER_ROLE"],
+  investmentManager: ["DEFAULT_ADMIN_ROLE", "MANAGER_ROLE", "PAUSER_ROLE"],
+  savingsManager: ["DEFAULT_ADMIN_ROLE", "MANAGER_ROLE", "PAUSER_ROLE"],
+  roleManager: ["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE", "PAUSER_ROLE", "EMPLOYER_ROLE", "EMPLOYEE_ROLE"],
+}
+
+export const roleHash = (name: string) =>
+  name === "DEFAULT_ADMIN_ROLE" ? ethers.constants.HashZero : ethers.utils.keccak256(ethers.utils.toUtf8Bytes(name))
+
+const roleNames = new Map(
+  Array.from(new Set(Object.values(CONTRACT_ROLES).flat())).map((name) => [roleHash(name), name]),
+)
+
+// Unknown roles show as a shortened hash
+export const roleName = (hash: string) => roleNames.get(hash) ?? `${hash.slice(0, 10)}...`
+
+// Contracts on which `account` can grant and revoke roles
+export async function fetchAdminContracts(account: string): Promise<ProtocolContractName[]> {
+  const admin = await Promise.all(
+    PROTOCOL_CONTRACTS.map(async (contract) => {
+      try {
+        const isDefaultAdmin = await checkRole(DEFAULT_ADMIN_ROLE, account, contract)
+        // RoleManager gates its own role management on ADMIN_ROLE as well
+        if (isDefaultAdmin || contract !== "roleManager") return isDefaultAdmin
+        return await checkRole(ADMIN_ROLE, account, contract)
+      } catch (error) {
+        console.error(`Failed to check admin role on ${contract}:`, error)
+        return false
+      }
+    }),
+  )
+  return PROTOCOL_CONTRACTS.filter((_, index) => admin[index])
+}
+
+export type RoleHolder = {
+  contract: ProtocolContractName
+  role: string
+  roleName: string
+  account: string
+  // The grant that gave the account its current membership
+  txHash: string
+  blockNumber: number
+}
+
+async function fetchContractRoleHolders(contract: ProtocolContractName): Promise<RoleHolder[]> {
+  const [granted, revoked, renounced] = await Promise.all([
+    queryIndexedEvents(contract, "RoleGranted"),
+    queryIndexedEvents(contract, "RoleRevoked"),
+    // RoleManager also emits its own RoleRenounced alongside the standard RoleRevoked
+    contract === "roleManager" ? queryIndexedEvents("roleManager", "RoleRenounced") : Promise.resolve([]),
+  ])
+
+  const changes = [
+    ...granted.map((event) => ({ event, granted: true })),
+    ...revoked.map((event) => ({ event, granted: false })),
+    ...renounced.map((event) => ({ event, granted: false })),
+  ].sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.logIndex - b.event.logIndex)
+
+  const holders = new Map<string, RoleHolder>()
+  for (const { event, granted: isGrant } of changes) {
+    const { role, account } = event.args
+    const key = `${role}:${account.toLowerCase()}`
+    if (isGrant) {
+      if (!holders.has(key)) {
+        holders.set(key, {
+          contract,
+          role,
+          roleName: roleName(role),
+          account,
+          txHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+        })
+      }
+    } else {
+      holders.delete(key)
+    }
+  }
+
+  // Roles granted in a constructor before the index start block never appear in the logs,
+  // and replay can drift on custom events, so confirm each holder against hasRole
+  const current = Array.from(holders.values())
+  const confirmed = await Promise.all(current.map((holder) => checkRole(holder.role, holder.account, contract)))
+  return current.filter((_, index) => confirmed[index])
+}
+
+// Current role holders for every contract, grouped in contract order
+export async function fetchRoleHolders(): Promise<RoleHolder[]> {
+  const perContract = await Promise.all(PROTOCOL_CONTRACTS.map(fetchContractRoleHolders))
+  return perContract.flat()
+}
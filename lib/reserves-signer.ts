@@ -0,0 +1,26 @@
+// Server-side signing of proof-of-reserves snapshots. Never import this from client code.
+
+import { ethers } from "ethers"
+import type { ReservesSnapshot, SignedReservesSnapshot } from "@/lib/reserves"
+
+// RESERVES_SIGNER_KEY is a private key used only for attestations; publish its address
+// so auditors know whose signature to expect. It never needs funds or contract roles.
+function getReservesSigner(): ethers.Wallet | null {
+  const key = process.env.RESERVES_SIGNER_KEY?.trim()
+  return key ? new ethers.Wallet(key) : null
+}
+
+export function isReservesSigningConfigured(): boolean {
+  return !!process.env.RESERVES_SIGNER_KEY?.trim()
+}
+
+export async function signReservesSnapshot(snapshot: ReservesSnapshot): Promise<SignedReservesSnapshot> {
+  const signer = getReservesSigner()
+  if (!signer) throw new Error("RESERVES_SIGNER_KEY is not set")
+
+  return {
+    snapshot,
+    signer: signer.address,
+    signature: await signer.signMessage(JSON.stringify(snapshot)),
+  }
+}
@@ -0,0 +1,207 @@
+// Proof of reserves: the SPAY supply against the ETF collateral backing it, read at a single block.
+
+import { ethers } from "ethers"
+import { CONTRACT_ADDRESSES, DEFAULT_CHAIN } from "@/config/blockchain"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import { collateralRatioBps } from "@/lib/collateral"
+import { getBlockTimestamps, queryIndexedEvents } from "@/lib/event-index"
+
+export type ReserveAsset = "gold" | "btc" | "eth"
+
+export type ReserveComponent = {
+  asset: ReserveAsset
+  // USD price with 18 decimals, as stored in ETFToken
+  priceUsd: string
+  weightPercent: number
+}
+
+// Token amounts are raw integer strings so the JSON stays exact and easy to re-check
+export type ReservesSnapshot = {
+  chainId: number
+  blockNumber: number
+  blockHash: string
+  timestamp: number
+  contracts: {
+    spayToken: string
+    etfToken: string
+    collateralManager: string
+  }
+  spayTotalSupply: string
+  spayDecimals: number
+  totalCollateralLocked: string
+  etfDecimals: number
+  etfPriceUsd: string
+  collateralValueUsd: string
+  // null when no SPAY is outstanding, which getCollateralRatio reports as uint256 max
+  collateralRatioBps: string | null
+  minCollateralRatioBps: number
+  targetCollateralRatioBps: number
+  components: ReserveComponent[]
+}
+
+export type SignedReservesSnapshot = {
+  snapshot: ReservesSnapshot
+  signer: string
+  // EIP-191 signature over JSON.stringify(snapshot)
+  signature: string
+}
+
+export type BackingRatioPoint = {
+  blockNumber: number
+  timestamp: number
+  ratioBps: number | null
+  totalLocked: ethers.BigNumber
+  spaySupply: ethers.BigNumber
+}
+
+// Every read is pinned to one block so the numbers are consistent with each other
+export async function fetchReservesSnapshot(): Promise<ReservesSnapshot> {
+  const { provider, spayToken, etfToken, collateralManager } = getReadOnlyContracts()
+  const [block, network] = await Promise.all([provider.getBlock("latest"), provider.getNetwork()])
+  const at = { blockTag: block.number }
+
+  const [
+    spayTotalSupply,
+    spayDecimals,
+    totalCollateralLocked,
+    etfDecimals,
+    etfPriceUsd,
+    ratio,
+    minRatioBps,
+    targetRatioBps,
+    goldPrice,
+    btcPrice,
+    ethPrice,
+    goldWeight,
+    btcWeight,
+    ethWeight,
+  ] = await Promise.all([
+    spayToken.totalSupply(at),
+    spayToken.decimals(at),
+    collateralManager.totalCollateralLocked(at),
+    etfToken.decimals(at),
+    collateralManager.getETFPriceUSD(at),
+    collateralManager.getCollateralRatio(at),
+    collateralManager.minCollateralRatioBps(at),
+    collateralManager.collateralRatioBps(at),
+    etfToken.goldPriceUSD(at),
+    etfToken.btcPriceUSD(at),
+    etfToken.ethPriceUSD(at),
+    etfToken.GOLD_PERCENTAGE(at),
+    etfToken.BTC_PERCENTAGE(at),
+    etfToken.ETH_PERCENTAGE(at),
+  ])
+
+  return {
+    // The chain actually read, which differs from DEFAULT_CHAIN when NEXT_PUBLIC_RPC_URL points elsewhere
+    chainId: network.chainId,
+    blockNumber: block.number,
+    blockHash: block.hash,
+    timestamp: block.timestamp,
+    contracts: {
+      spayToken: CONTRACT_ADDRESSES.SPAY_TOKEN_CONTRACT,
+      etfToken: CONTRACT_ADDRESSES.ETF_TOKEN_CONTRACT,
+      collateralManager: CONTRACT_ADDRESSES.COLLETRAL_MANAGER,
+    },
+    spayTotalSupply: spayTotalSupply.toString(),
+    spayDecimals,
+    totalCollateralLocked: totalCollateralLocked.toString(),
+    etfDecimals,
+    etfPriceUsd: etfPriceUsd.toString(),
+    collateralValueUsd: totalCollateralLocked.mul(etfPriceUsd).div(ethers.constants.WeiPerEther).toString(),
+    collateralRatioBps: ratio.eq(ethers.constants.MaxUint256) ? null : ratio.toString(),
+    minCollateralRatioBps: minRatioBps.toNumber(),
+    targetCollateralRatioBps: targetRatioBps.toNumber(),
+    components: [
+      { asset: "gold", priceUsd: goldPrice.toString(), weightPercent: goldWeight.toNumber() },
+      { asset: "btc", priceUsd: btcPrice.toString(), weightPercent: btcWeight.toNumber() },
+      { asset: "eth", priceUsd: ethPrice.toString(), weightPercent: ethWeight.toNumber() },
+    ],
+  }
+}
+
+// Mirrors ETFToken.getETFPriceUSD: each component is rounded down before summing
+function etfPriceFromComponents(prices: ethers.BigNumber[], weights: number[]) {
+  return prices.reduce((total, price, index) => total.add(price.mul(weights[index]).div(100)), ethers.constants.Zero)
+}
+
+// Backing ratio after each collateral, mint/burn and price event, oldest first, ending at the snapshot.
+// State is walked backwards from the snapshot. Before the earliest indexed price update the ETF price
+// is unknown, so history stops there.
+export async function fetchBackingHistory(snapshot: ReservesSnapshot): Promise<BackingRatioPoint[]> {
+  const [locked, released, minted, burned, priceUpdates] = await Promise.all([
+    queryIndexedEvents("collateralManager", "CollateralLocked"),
+    queryIndexedEvents("collateralManager", "CollateralReleased"),
+    queryIndexedEvents("spayToken", "Transfer", { from: ethers.constants.AddressZero }),
+    queryIndexedEvents("spayToken", "Transfer", { to: ethers.constants.AddressZero }),
+    queryIndexedEvents("etfToken", "PricesUpdated"),
+  ])
+
+  type BackingState = { locked: ethers.BigNumber; supply: ethers.BigNumber; prices: ethers.BigNumber[] | null }
+  type Change = { blockNumber: number; logIndex: number; undo: (state: BackingState) => void }
+  const change = (event: { blockNumber: number; logIndex: number }, undo: Change["undo"]): Change => ({
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    undo,
+  })
+
+  const pastPriceUpdates = priceUpdates.filter((event) => event.blockNumber <= snapshot.blockNumber)
+  const changes = [
+    ...locked.map((event) => change(event, (state) => (state.locked = state.locked.sub(event.args.amount)))),
+    ...released.map((event) => change(event, (state) => (state.locked = state.locked.add(event.args.amount)))),
+    ...minted.map((event) => change(event, (state) => (state.supply = state.supply.sub(event.args.value)))),
+    ...burned.map((event) => change(event, (state) => (state.supply = state.supply.add(event.args.value)))),
+    ...pastPriceUpdates.map((event, index) =>
+      change(event, (state) => {
+        const previous = pastPriceUpdates[index - 1]
+        state.prices = previous ? [previous.args.goldPrice, previous.args.btcPrice, previous.args.ethPrice] : null
+      }),
+    ),
+  ]
+    .filter(({ blockNumber }) => blockNumber <= snapshot.blockNumber)
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+
+  const weights = snapshot.components.map((component) => component.weightPercent)
+  const state: BackingState = {
+    locked: ethers.BigNumber.from(snapshot.totalCollateralLocked),
+    supply: ethers.BigNumber.from(snapshot.spayTotalSupply),
+    prices: snapshot.components.map((component) => ethers.BigNumber.from(component.priceUsd)),
+  }
+
+  const points: Omit<BackingRatioPoint, "timestamp">[] = []
+  const record = (blockNumber: number) => {
+    if (!state.prices) return false
+    points.push({
+      blockNumber,
+      ratioBps: collateralRatioBps(state.locked, etfPriceFromComponents(state.prices, weights), state.supply),
+      totalLocked: state.locked,
+      spaySupply: state.supply,
+    })
+    return true
+  }
+
+  // Record the state as it stood right after each change, then undo the change to step further back
+  record(snapshot.blockNumber)
+  for (const change of changes) {
+    if (!record(change.blockNumber)) break
+    change.undo(state)
+  }
+
+  const timestamps = await getBlockTimestamps(points.map((point) => point.blockNumber))
+  return points.map((point) => ({ ...point, timestamp: timestamps.get(point.blockNumber) ?? 0 })).reverse()
+}
+
+// Recovers the address that signed a snapshot; compare it against the published signer
+export function recoverReservesSigner(document: SignedReservesSnapshot): string {
+  return ethers.utils.verifyMessage(JSON.stringify(document.snapshot), document.signature)
+}
+
+export async function fetchSignedReserves(): Promise<SignedReservesSnapshot> {
+  const response = await fetch("/api/reserves")
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }))
+    throw new Error(`Failed to load signed reserves snapshot: ${error}`)
+  }
+
+  return (await response.json()) as SignedReservesSnapshot
+}
@@ -1,6 +1,41 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { ethers } from "ethers"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Formats a raw token amount for display, e.g. 1234500000000000000000 -> "1,234.5"
+export function formatTokenAmount(value: ethers.BigNumberish, decimals = 18, fractionDigits = 2): string {
+  const [whole, fraction = ""] = ethers.utils.formatUnits(value, decimals).split(".")
+  const trimmed = fraction.slice(0, fractionDigits).replace(/0+$/, "")
+  return ethers.utils.commify(whole) + (trimmed ? `.${trimmed}` : "")
+}
+
+// Formats an 18-decimal USD amount with cents, e.g. 1020000000000000000 -> "$1.02"
+export function formatUSDAmount(value: ethers.BigNumberish, decimals = 18): string {
+  const [whole, fraction = ""] = ethers.utils.formatUnits(value, decimals).split(".")
+  return `$${ethers.utils.commify(whole)}.${fraction.padEnd(2, "0").slice(0, 2)}`
+}
+
+// Formats a date the way the dashboards display it, e.g. "May 30, 2025"
+// Basis points as a percentage, e.g. 1250 -> "12.5%"
+export const formatBps = (bps: number) => `${(bps / 100).toFixed(2).replace(/\.?0+$/, "")}%`
+
+export function formatDate(date: Date | number): string {
+  const value = typeof date === "number" ? new Date(date * 1000) : date
+  return value.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+}
+
+// Formats a duration in seconds as a compact countdown, e.g. 93784 -> "1d 2h 3m 4s"
+export function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60)
+  if (days > 0) return `${days}d ${hours}h ${minutes}m ${secs}s`
+  if (hours > 0) return `${hours}h ${minutes}m ${secs}s`
+  if (minutes > 0) return `${minutes}m ${secs}s`
+  return `${secs}s`
+}
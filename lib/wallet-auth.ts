@@ -0,0 +1,86 @@
+// Wallet sign-in: the wallet signs a server-issued nonce, and the server answers with an
+// HttpOnly session cookie that the API routes check.
+
+import { ethers } from "ethers"
+import { DEFAULT_CHAIN } from "@/config/blockchain"
+
+export type SignInChallenge = {
+  nonce: string
+  issuedAt: string
+}
+
+// EIP-4361 (Sign-In with Ethereum) message. The server rebuilds it from its own nonce cookie
+// rather than trusting text sent by the client.
+export function buildSignInMessage({
+  domain,
+  uri,
+  address,
+  nonce,
+  issuedAt,
+}: SignInChallenge & { domain: string; uri: string; address: string }): string {
+  return [
+    `${domain} wants you to sign in with your Ethereum account:`,
+    ethers.utils.getAddress(address),
+    "",
+    "Sign in to StablePay. This does not send a transaction or cost gas.",
+    "",
+    `URI: ${uri}`,
+    "Version: 1",
+    `Chain ID: ${DEFAULT_CHAIN.id}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join("\n")
+}
+
+async function readError(response: Response) {
+  const { error } = await response.json().catch(() => ({ error: response.statusText }))
+  return error
+}
+
+// The wallet the current session cookie belongs to, or null when signed out
+export async function fetchSessionAddress(): Promise<string | null> {
+  const response = await fetch("/api/auth/session", { cache: "no-store" })
+  if (response.status === 401) return null
+  if (!response.ok) {
+    throw new Error(`Failed to load wallet session: ${await readError(response)}`)
+  }
+
+  const { address } = (await response.json()) as { address: string }
+  return address
+}
+
+// Signs in `address` unless the session already belongs to it. `signMessage` prompts the wallet.
+export async function ensureWalletSession(address: string, signMessage: (message: string) => Promise<string>) {
+  const current = await fetchSessionAddress()
+  if (current && current.toLowerCase() === address.toLowerCase()) return
+
+  const challengeResponse = await fetch("/api/auth/nonce", { cache: "no-store" })
+  if (!challengeResponse.ok) {
+    throw new Error(`Failed to start wallet sign-in: ${await readError(challengeResponse)}`)
+  }
+  const challenge = (await challengeResponse.json()) as SignInChallenge
+
+  const message = buildSignInMessage({
+    ...challenge,
+    domain: window.location.host,
+    uri: window.location.origin,
+    address,
+  })
+  const signature = await signMessage(message)
+
+  const response = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ address, signature }),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to sign in: ${await readError(response)}`)
+  }
+}
+
+export async function signOutWallet(): Promise<void> {
+  const response = await fetch("/api/auth/session", { method: "DELETE" })
+  if (!response.ok) {
+    throw new Error(`Failed to sign out: ${await readError(response)}`)
+  }
+}
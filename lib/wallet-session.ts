@@ -0,0 +1,117 @@
+// Wallet sessions for the API routes: HMAC-signed nonce and session cookies. Never import this from client code.
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import type { SignInChallenge } from "@/lib/wallet-auth"
+
+// middleware.ts checks for this cookie by name; keep the two in sync
+export const SESSION_COOKIE = "wallet-session"
+const NONCE_COOKIE = "wallet-nonce"
+
+const SESSION_TTL_SECONDS = 24 * 60 * 60
+const NONCE_TTL_SECONDS = 5 * 60
+
+// SESSION_SECRET signs the cookies. Development falls back to a per-process secret, so
+// sessions end when the dev server restarts; production refuses to issue sessions without one.
+const developmentSecret = randomBytes(32).toString("hex")
+
+function getSessionSecret(): string | null {
+  const secret = process.env.SESSION_SECRET?.trim()
+  if (secret) return secret
+  return process.env.NODE_ENV === "production" ? null : developmentSecret
+}
+
+export function isWalletSessionConfigured(): boolean {
+  return getSessionSecret() !== null
+}
+
+const hmac = (payload: string) => createHmac("sha256", getSessionSecret()!).update(payload).digest("base64url")
+
+function seal(value: object, ttlSeconds: number): string {
+  const payload = Buffer.from(
+    JSON.stringify({ ...value, exp: Math.floor(Date.now() / 1000) + ttlSeconds }),
+  ).toString("base64url")
+  return `${payload}.${hmac(payload)}`
+}
+
+// The sealed value, or null when the cookie is missing, tampered with or expired
+function unseal<T>(cookie: string | undefined): T | null {
+  if (!cookie || !isWalletSessionConfigured()) return null
+
+  const [payload, signature] = cookie.split(".")
+  if (!payload || !signature) return null
+  const expected = Buffer.from(hmac(payload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const value = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+    return value.exp > Math.floor(Date.now() / 1000) ? (value as T) : null
+  } catch {
+    return null
+  }
+}
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge,
+})
+
+// Nonces that already opened a session, so a captured signature can't be replayed while
+// its challenge cookie is still valid. Entries are dropped once the challenge would have expired.
+const usedNonces = new Map<string, number>()
+
+function consumeNonce(nonce: string): boolean {
+  const now = Date.now()
+  usedNonces.forEach((expiresAt, used) => {
+    if (expiresAt < now) usedNonces.delete(used)
+  })
+  if (usedNonces.has(nonce)) return false
+
+  usedNonces.set(nonce, now + NONCE_TTL_SECONDS * 1000)
+  return true
+}
+
+export function issueSignInChallenge(response: NextResponse, challenge: SignInChallenge) {
+  response.cookies.set(NONCE_COOKIE, seal(challenge, NONCE_TTL_SECONDS), cookieOptions(NONCE_TTL_SECONDS))
+}
+
+// The challenge this browser was issued, spent on first use
+export function takeSignInChallenge(request: NextRequest): SignInChallenge | null {
+  const challenge = unseal<SignInChallenge>(request.cookies.get(NONCE_COOKIE)?.value)
+  return challenge && consumeNonce(challenge.nonce) ? { nonce: challenge.nonce, issuedAt: challenge.issuedAt } : null
+}
+
+export function startWalletSession(response: NextResponse, address: string) {
+  response.cookies.set(SESSION_COOKIE, seal({ address }, SESSION_TTL_SECONDS), cookieOptions(SESSION_TTL_SECONDS))
+  response.cookies.delete(NONCE_COOKIE)
+}
+
+export function endWalletSession(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE)
+  response.cookies.delete(NONCE_COOKIE)
+}
+
+export function getSessionAddress(request: NextRequest): string | null {
+  return unseal<{ address: string }>(request.cookies.get(SESSION_COOKIE)?.value)?.address ?? null
+}
+
+// Error response unless the request carries a session for `address`; null when the request may proceed
+export function authorizeWallet(request: NextRequest, address: string): NextResponse | null {
+  if (!isWalletSessionConfigured()) {
+    return NextResponse.json({ error: "Wallet sessions are not configured" }, { status: 503 })
+  }
+
+  const sessionAddress = getSessionAddress(request)
+  if (!sessionAddress) {
+    return NextResponse.json({ error: "Sign in with your wallet first" }, { status: 401 })
+  }
+  if (sessionAddress.toLowerCase() !== address.toLowerCase()) {
+    return NextResponse.json({ error: "Not authorized for this wallet" }, { status: 403 })
+  }
+  return null
+}
@@ -2,8 +2,9 @@ import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 
 export function middleware(request: NextRequest) {
-  const isAuthenticated = request.cookies.get('auth-token')
-  const isProtectedRoute = request.nextUrl.pathname.startsWith('/employer') || request.nextUrl.pathname.startsWith('/employee')
+  // Only a hint for page routing; the API routes verify the signed session itself (lib/wallet-session.ts)
+  const isAuthenticated = request.cookies.get('wallet-session')
+  const isProtectedRoute = request.nextUrl.pathname.startsWith('/employer') || request.nextUrl.pathname.startsWith('/employee') || request.nextUrl.pathname.startsWith('/admin')
 
   if (isProtectedRoute && !isAuthenticated) {
     return NextResponse.redirect(new URL('/', request.url))
@@ -13,5 +14,5 @@ export function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/employer/:path*', '/employee/:path*'],
+  matcher: ['/employer/:path*', '/employee/:path*', '/admin/:path*'],
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useEffect, useState, useCallback } from "react"
+import { CONTRACT_STATUS_POLL_INTERVAL } from "@/config/blockchain"
+import { getReadOnlyContracts } from "@/WEB3/blockchainIntergation"
+import type { ProtocolContractName } from "@/WEB3/roleAuthentication"
+import { PROTOCOL_CONTRACTS } from "@/lib/protocol-roles"
+import {
+  PAUSABLE_ACTIONS,
+  fetchContractHealth,
+  fetchContractStatuses,
+  unknownContractStatuses,
+  type ContractStatuses,
+  type PausableAction,
+} from "@/lib/contract-status"
+
+type ContractStatusContextType = {
+  statuses: ContractStatuses
+  lastChecked: number | null
+  // Contracts blocking the given action, in PAUSABLE_ACTIONS order
+  pausedFor: (action: PausableAction) => ProtocolContractName[]
+  isPaused: (action: PausableAction) => boolean
+  refresh: () => Promise<void>
+}
+
+const ContractStatusContext = createContext<ContractStatusContextType>({
+  statuses: unknownContractStatuses(),
+  lastChecked: null,
+  pausedFor: () => [],
+  isPaused: () => false,
+  refresh: async () => {},
+})
+
+export const useContractStatus = () => useContext(ContractStatusContext)
+
+// Pause events carry no state, so each one triggers a fresh paused() read for that contract.
+// RoleManager emits its own ContractPaused/ContractUnpaused alongside the OpenZeppelin events.
+const PAUSE_EVENTS = ["Paused", "Unpaused"]
+const ROLE_MANAGER_PAUSE_EVENTS = ["ContractPaused", "ContractUnpaused"]
+
+export const ContractStatusProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [statuses, setStatuses] = useState<ContractStatuses>(unknownContractStatuses)
+  const [lastChecked, setLastChecked] = useState<number | null>(null)
+
+  const refresh = useCallback(async () => {
+    setStatuses(await fetchContractStatuses())
+    setLastChecked(Date.now())
+  }, [])
+
+  // Poll as a fallback for RPCs that drop event subscriptions
+  useEffect(() => {
+    refresh()
+    const interval = setInterval(refresh, CONTRACT_STATUS_POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [refresh])
+
+  useEffect(() => {
+    const contracts = getReadOnlyContracts()
+    const subscriptions = PROTOCOL_CONTRACTS.flatMap((name) => {
+      const handler = async () => {
+        const health = await fetchContractHealth(name)
+        setStatuses((current) => ({ ...current, [name]: health }))
+        setLastChecked(Date.now())
+      }
+      const events = name === "roleManager" ? [...PAUSE_EVENTS, ...ROLE_MANAGER_PAUSE_EVENTS] : PAUSE_EVENTS
+      return events.map((event) => ({ contract: contracts[name], event, handler }))
+    })
+
+    subscriptions.forEach(({ contract, event, handler }) => contract.on(event, handler))
+    return () => {
+      subscriptions.forEach(({ contract, event, handler }) => contract.off(event, handler))
+    }
+  }, [])
+
+  const pausedFor = useCallback(
+    (action: PausableAction) => PAUSABLE_ACTIONS[action].filter((contract) => statuses[contract] === "paused"),
+    [statuses],
+  )
+
+  const isPaused = useCallback((action: PausableAction) => pausedFor(action).length > 0, [pausedFor])
+
+  return (
+    <ContractStatusContext.Provider value={{ statuses, lastChecked, pausedFor, isPaused, refresh }}>
+      {children}
+    </ContractStatusContext.Provider>
+  )
+}
@@ -2,8 +2,11 @@
 
 import type React from "react"
 import { createContext, useContext, useEffect, useState, useCallback } from "react"
+import { ethers } from "ethers"
 import { toast } from "@/components/ui/use-toast"
 import { DEFAULT_CHAIN } from "@/config/blockchain"
+import { resetBlockchainContracts } from "@/WEB3/blockchainIntergation"
+import { ensureWalletSession, signOutWallet } from "@/lib/wallet-auth"
 
 // Define window.ethereum for TypeScript
 declare global {
@@ -19,7 +22,7 @@ type Web3ContextType = {
   isConnected: boolean
   userRole: 'employer' | 'employee' | null
   connectWallet: () => Promise<void>
-  disconnectWallet: () => void
+  disconnectWallet: () => Promise<void>
   formatAddress: (address: string | null) => string
   viewOnExplorer: () => void
   setUserRole: (role: 'employer' | 'employee' | null) => void
@@ -32,7 +35,7 @@ const Web3Context = createContext<Web3ContextType>({
   isConnected: false,
   userRole: null,
   connectWallet: async () => {},
-  disconnectWallet: () => {},
+  disconnectWallet: async () => {},
   formatAddress: () => "",
   viewOnExplorer: () => {},
   setUserRole: () => {},
@@ -47,6 +50,22 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isConnected, setIsConnected] = useState(false)
   const [userRole, setUserRole] = useState<'employer' | 'employee' | null>(null)
 
+  // Sign-In with Ethereum: the API routes only trust the session cookie this sets. Only the
+  // off-chain directory and settings need it, so a failure warns and leaves the wallet connected.
+  const signIn = useCallback(async (address: string) => {
+    try {
+      const signer = new ethers.providers.Web3Provider(window.ethereum).getSigner(address)
+      await ensureWalletSession(address, (message) => signer.signMessage(message))
+    } catch (error: any) {
+      console.error("Wallet sign-in failed:", error)
+      toast({
+        title: "Sign-In Failed",
+        description: `Employee details and settings are unavailable until you sign in. Reconnect your wallet to try again. ${error?.message || ""}`.trim(),
+        variant: "destructive",
+      })
+    }
+  }, [])
+
   // Format address for display
   const formatAddress = useCallback((address: string | null): string => {
     if (!address) return ""
@@ -71,9 +90,6 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
       const accounts = await window.ethereum.request({ method: "eth_requestAccounts" })
       const chainIdHex = await window.ethereum.request({ method: "eth_chainId" })
       const chainIdDecimal = Number.parseInt(chainIdHex, 16)
-      
-      // Set authentication cookie
-      document.cookie = `auth-token=${accounts[0]}; path=/`
 
       // Check if we're on Pharos Devnet (chainId 50002)
       if (chainIdDecimal !== DEFAULT_CHAIN.id) {
@@ -117,6 +133,8 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
         title: "Wallet Connected",
         description: `Connected to ${formatAddress(accounts[0])}`,
       })
+
+      await signIn(accounts[0])
     } catch (error) {
       console.error("Failed to connect wallet:", error)
       toast({
@@ -127,17 +145,22 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
     } finally {
       setIsConnecting(false)
     }
-  }, [formatAddress])
+  }, [formatAddress, signIn])
 
   // Disconnect wallet
-  const disconnectWallet = useCallback(() => {
+  const disconnectWallet = useCallback(async () => {
+    resetBlockchainContracts()
     setAccount(null)
     setChainId(null)
     setIsConnected(false)
     setUserRole(null)
-    
-    // Clear auth cookie
-    document.cookie = 'auth-token=; path=/; expires=Thu, 01 Jan 1970 00:00:01 GMT;'
+
+    // End the server session
+    try {
+      await signOutWallet()
+    } catch (error) {
+      console.error("Failed to end wallet session:", error)
+    }
 
     toast({
       title: "Wallet Disconnected",
@@ -153,17 +176,23 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
           // User disconnected their wallet
           disconnectWallet()
         } else if (accounts[0] !== account) {
-          // User switched accounts
+          // User switched accounts, so the cached signer is stale
+          resetBlockchainContracts()
           setAccount(accounts[0])
+
           toast({
             title: "Account Changed",
             description: `Switched to ${formatAddress(accounts[0])}`,
           })
+
+          // The session belongs to the previous account, so the new one has to sign in too
+          signIn(accounts[0])
         }
       }
 
       const handleChainChanged = (chainIdHex: string) => {
         const newChainId = Number.parseInt(chainIdHex, 16)
+        resetBlockchainContracts()
         setChainId(newChainId)
 
         // Check if we're on XDC Testnet
@@ -189,7 +218,7 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
         window.ethereum.removeListener("chainChanged", handleChainChanged)
       }
     }
-  }, [account, disconnectWallet, formatAddress])
+  }, [account, disconnectWallet, formatAddress, signIn])
 
   // View address on block explorer
   const viewOnExplorer = useCallback(() => {